@@ -0,0 +1,443 @@
+import path from 'node:path';
+
+import {
+  CodeAction,
+  Range,
+  Uri,
+  window,
+  workspace,
+  WorkspaceEdit,
+} from 'vscode';
+import {
+  isMap,
+  isScalar,
+  isSeq,
+  LineCounter,
+  parseDocument,
+  Scalar,
+  YAMLMap,
+  YAMLSeq,
+} from 'yaml';
+
+import { COMMAND_UPDATE_CONFIG, CONFIG_BASENAME } from './constants.js';
+import { getConfigPath } from './helpers.js';
+import { logger } from './logger.js';
+import { getDisplayPath } from './protolint-config.js';
+import { PROTOLINT_QUICK_FIX } from './rule-mapper.js';
+
+import type { TextDocument } from 'vscode';
+import type { Document, Node, ToStringOptions } from 'yaml';
+
+import type { TExtensionCommands, TResult } from './constants.js';
+import type { ProtolintDiagnostic } from './rule-mapper.js';
+
+enum ConfigEditErrorCode {
+  Parse = 'CONFIG_PARSE_FAILED',
+  Unsupported = 'CONFIG_EDIT_UNSUPPORTED',
+}
+
+interface IConfigEditError {
+  code: ConfigEditErrorCode;
+
+  /**
+   * 1-based line number.
+   */
+  line: number;
+}
+
+/**
+ * A change of `protolint` config turning the rule off:
+ * - `exclude` adds the file to `lint.ignores` entry of the rule.
+ * - `remove` adds the rule to `lint.rules.remove`.
+ */
+type TConfigChange = 'exclude' | 'remove';
+
+/**
+ * `true` if the config document is changed, or the node which can't be
+ * edited, e.g. a scalar where a mapping is expected.
+ */
+type TDocumentEdit = TResult<boolean, Node>;
+
+/**
+ * The edited config text or `undefined` if the config already has the
+ * change.
+ */
+type TEditResult = TResult<string | undefined, IConfigEditError>;
+
+/**
+ * Keeps the flow collections and the long scalars as they are usually
+ * written in `protolint` config.
+ */
+const STRINGIFY_OPTIONS: ToStringOptions = {
+  flowCollectionPadding: false,
+  lineWidth: 0,
+};
+
+/**
+ * Adds the file to `lint.ignores` entry of the rule.
+ *
+ * @param text The config text.
+ * @param rule The rule ID.
+ * @param file The file path relative to the Workspace Folder root.
+ */
+function addIgnoredFile(text: string, rule: string, file: string): TEditResult {
+  return editConfig(text, (root) => {
+    const ignores = sequenceAt(root, ['lint', 'ignores']);
+
+    if (ignores.result === 'error') {
+      return ignores;
+    }
+
+    let entry = ignores.value.items.find(
+      (item): item is YAMLMap => isMap(item) && item.get('id') === rule,
+    );
+
+    if (entry === undefined) {
+      entry = new YAMLMap();
+      entry.set('id', rule);
+      ignores.value.add(entry);
+    }
+
+    return addItem(entry, ['files'], file);
+  });
+}
+
+/**
+ * Adds the scalar to the sequence at the path, unless it's there already.
+ */
+function addItem(
+  map: YAMLMap,
+  keys: readonly string[],
+  value: string,
+): TDocumentEdit {
+  const items = sequenceAt(map, keys);
+
+  if (items.result === 'error') {
+    return items;
+  }
+
+  if (hasItem(items.value, value)) {
+    return { result: 'success', value: false };
+  }
+
+  items.value.add(new Scalar(value));
+
+  return { result: 'success', value: true };
+}
+
+/**
+ * Adds the rule to `lint.rules.remove`. If the config has `no_default: true`
+ * and the rule is in `lint.rules.add`, the rule is removed from `add` instead,
+ * as listing it in both would contradict.
+ *
+ * @param text The config text.
+ * @param rule The rule ID.
+ */
+function addRemovedRule(text: string, rule: string): TEditResult {
+  return editConfig(text, (root) => {
+    const added = root.getIn(['lint', 'rules', 'add'], true);
+
+    if (
+      root.getIn(['lint', 'rules', 'no_default']) !== true ||
+      !isSeq(added) ||
+      !hasItem(added, rule)
+    ) {
+      return addItem(root, ['lint', 'rules', 'remove'], rule);
+    }
+
+    added.delete(added.items.findIndex((item) => isItem(item, rule)));
+
+    return { result: 'success', value: true };
+  });
+}
+
+/**
+ * Creates the quick fixes turning the rule off in `protolint` config file.
+ *
+ * @param document The target document.
+ * @param diagnostic The diagnostic to turn off.
+ */
+function configActions(
+  document: TextDocument,
+  diagnostic: ProtolintDiagnostic,
+): CodeAction[] {
+  const { uri } = document;
+
+  if (uri.scheme !== 'file' || !workspace.getWorkspaceFolder(uri)) {
+    return [];
+  }
+
+  const { rule } = diagnostic.error;
+  const actions: [string, TConfigChange][] = [
+    [`Disable ${rule} in project config`, 'remove'],
+    [`Exclude this file from ${rule}`, 'exclude'],
+  ];
+
+  return actions.map(([title, change]) => {
+    const action = new CodeAction(title, PROTOLINT_QUICK_FIX);
+    const arguments_: Parameters<
+      TExtensionCommands[typeof COMMAND_UPDATE_CONFIG]
+    > = [uri, rule, change];
+
+    action.command = {
+      arguments: arguments_,
+      command: COMMAND_UPDATE_CONFIG,
+      title,
+    };
+    action.diagnostics = [diagnostic];
+
+    return action;
+  });
+}
+
+/**
+ * Parses the config text and applies the edit to the config document. The
+ * comments are kept, while the rest of the config is formatted the way the
+ * `yaml` library writes it.
+ *
+ * @param text The config text.
+ * @param edit Edits the root mapping of the config document.
+ */
+function editConfig(
+  text: string,
+  edit: (root: YAMLMap) => TDocumentEdit,
+): TEditResult {
+  const lineCounter = new LineCounter();
+  const document = parseDocument(text, { lineCounter });
+  const [error] = document.errors;
+
+  if (error !== undefined) {
+    return {
+      error: {
+        code: ConfigEditErrorCode.Parse,
+        line: error.linePos?.[0].line ?? 1,
+      },
+      result: 'error',
+    };
+  }
+
+  const root = rootMapping(document);
+  const result = root.result === 'success' ? edit(root.value) : root;
+
+  if (result.result === 'error') {
+    return {
+      error: {
+        code: ConfigEditErrorCode.Unsupported,
+        line: lineCounter.linePos(result.error.range?.[0] ?? 0).line,
+      },
+      result: 'error',
+    };
+  }
+
+  return {
+    result: 'success',
+    value: result.value ? document.toString(STRINGIFY_OPTIONS) : undefined,
+  };
+}
+
+function hasItem(items: YAMLSeq, value: string): boolean {
+  return items.items.some((item) => isItem(item, value));
+}
+
+/**
+ * Tells whether the node is an empty value, e.g. of `rules:` entry.
+ */
+function isEmpty(node: unknown): boolean {
+  return node === null || (isScalar(node) && node.value === null);
+}
+
+function isItem(item: unknown, value: string): boolean {
+  return isScalar(item) && item.value === value;
+}
+
+/**
+ * Gets the mapping at the path, creating the missing and the empty mappings.
+ */
+function mappingAt(
+  map: YAMLMap,
+  keys: readonly string[],
+): TResult<YAMLMap, Node> {
+  let current = map;
+
+  for (const key of keys) {
+    const node = current.get(key, true);
+
+    if (node === undefined || isEmpty(node)) {
+      const nested = new YAMLMap();
+
+      current.set(key, nested);
+      current = nested;
+    } else if (isMap(node)) {
+      current = node;
+    } else {
+      return { error: node as Node, result: 'error' };
+    }
+  }
+
+  return { result: 'success', value: current };
+}
+
+/**
+ * Gets the root mapping of the config document, creating it for the empty
+ * config.
+ */
+function rootMapping(document: Document): TResult<YAMLMap, Node> {
+  const { contents } = document;
+
+  if (isMap(contents)) {
+    return { result: 'success', value: contents };
+  }
+
+  if (!isEmpty(contents)) {
+    return { error: contents as Node, result: 'error' };
+  }
+
+  const root = new YAMLMap();
+
+  document.contents = root;
+
+  return { result: 'success', value: root };
+}
+
+/**
+ * Gets the sequence at the path, creating the missing or the empty sequence
+ * and the mappings on the way.
+ */
+function sequenceAt(
+  map: YAMLMap,
+  keys: readonly string[],
+): TResult<YAMLSeq, Node> {
+  const parent = mappingAt(map, keys.slice(0, -1));
+  const key = keys.at(-1);
+
+  if (parent.result === 'error') {
+    return parent;
+  }
+
+  const node = parent.value.get(key, true);
+
+  if (isSeq(node)) {
+    return { result: 'success', value: node };
+  }
+
+  if (node !== undefined && !isEmpty(node)) {
+    return { error: node as Node, result: 'error' };
+  }
+
+  const items = new YAMLSeq();
+
+  parent.value.set(key, items);
+
+  return { result: 'success', value: items };
+}
+
+/**
+ * Turns the rule off in `protolint` config file for the document, keeping the
+ * existing config comments. The config file is created in the
+ * Workspace Folder root, if there is no config yet. The open config file with
+ * unsaved changes is edited, but not saved.
+ *
+ * @param uri The document URI.
+ * @param rule The rule ID.
+ * @param change The config change to apply.
+ */
+async function updateConfig(
+  uri: Uri,
+  rule: string,
+  change: TConfigChange,
+): Promise<void> {
+  const folder = workspace.getWorkspaceFolder(uri);
+
+  if (folder === undefined) {
+    return;
+  }
+
+  const configPath = await getConfigPath(uri);
+  const configUri =
+    configPath === undefined
+      ? Uri.joinPath(folder.uri, CONFIG_BASENAME)
+      : Uri.file(configPath);
+  const basename = path.basename(configUri.fsPath);
+  let document: TextDocument | undefined;
+
+  try {
+    await workspace.fs.stat(configUri);
+    document = await workspace.openTextDocument(configUri);
+  } catch {
+    document = undefined;
+  }
+
+  const text = document?.getText() ?? '';
+  const edit =
+    change === 'remove'
+      ? addRemovedRule(text, rule)
+      : addIgnoredFile(text, rule, getDisplayPath(uri));
+
+  if (edit.result === 'error') {
+    logger.warn(
+      `[Config editor] Failed editing '${configUri.fsPath}'. Details:`,
+      edit.error,
+    );
+    void window.showErrorMessage(
+      `Can't update ${basename} automatically: unsupported YAML at line ${edit.error.line.toString()}.`,
+    );
+
+    return;
+  }
+
+  if (edit.value === undefined) {
+    void window.showInformationMessage(
+      `${rule} is already turned off in ${basename}.`,
+    );
+
+    return;
+  }
+
+  const eol = text.includes('\r\n') ? '\r\n' : '\n';
+  const updated = edit.value.replaceAll('\n', eol);
+
+  try {
+    if (document === undefined) {
+      await workspace.fs.writeFile(
+        configUri,
+        new TextEncoder().encode(updated),
+      );
+
+      return;
+    }
+
+    const workspaceEdit = new WorkspaceEdit();
+
+    workspaceEdit.replace(
+      configUri,
+      new Range(
+        document.positionAt(0),
+        document.positionAt(document.getText().length),
+      ),
+      updated,
+    );
+
+    const { isDirty } = document;
+
+    await workspace.applyEdit(workspaceEdit);
+
+    if (isDirty) {
+      void window.showInformationMessage(
+        `${rule} is turned off in ${basename}. Save ${basename} to apply the change, as it has other unsaved changes.`,
+      );
+
+      return;
+    }
+
+    await document.save();
+  } catch (error) {
+    logger.error(
+      `[Config editor] Failed saving '${configUri.fsPath}'. Details:`,
+      error,
+    );
+    void window.showErrorMessage(`Failed saving ${basename}.`);
+  }
+}
+
+export type { TConfigChange };
+export { addIgnoredFile, addRemovedRule, configActions, updateConfig };
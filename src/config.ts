@@ -20,6 +20,7 @@ import {
 } from './constants.js';
 import { Executable } from './executable.js';
 import {
+  CONFIG_CONFIG_PATH_KEY,
   executeCommand,
   locateExecutable,
   registerCommand,
@@ -46,6 +47,13 @@ const CONFIG_COMMAND_KEY = 'command';
  */
 const CONFIG_COMMAND_SECTION = `${CONFIG_SECTION}.${CONFIG_COMMAND_KEY}`;
 
+/**
+ * The settings which Workspace and Workspace Folder values are ignored in
+ * Restricted Mode. Keep in sync with `capabilities.untrustedWorkspaces` in
+ * `package.json`.
+ */
+const RESTRICTED_CONFIG_KEYS = [CONFIG_COMMAND_KEY, CONFIG_CONFIG_PATH_KEY];
+
 enum ConfigurationTargetErrorCode {
   NotFound = 'EXECUTABLE_NOT_FOUND',
 }
@@ -75,6 +83,8 @@ type TFixCommandAction = (executable: Executable) => Thenable<unknown>;
  * Manages the cache of `protolint` executable(s):
  * - Syncs `protolint` executable command with VS Code Settings and opened
  * Workspace Folders.
+ * - Ignores Workspace and Workspace Folder executable commands until the
+ * workspace is trusted.
  * - Provides the command {@link COMMAND_FIX_EXECUTABLE_COMMAND} for fixing an
  * incorrect `protolint` command.
  * - Guarantees that only one cache is instantiated.
@@ -145,6 +155,18 @@ class ExecutableCache implements Disposable {
       disposables,
     );
 
+    workspace.onDidGrantWorkspaceTrust(
+      async () => {
+        await this._load(workspace.workspaceFolders ?? []);
+
+        void executeCommand(COMMAND_LINT_DOCUMENTS, [
+          ...workspace.textDocuments,
+        ]);
+      },
+      undefined,
+      disposables,
+    );
+
     workspace.onDidChangeConfiguration(
       async (event) => {
         if (!event.affectsConfiguration(CONFIG_COMMAND_SECTION)) {
@@ -241,14 +263,40 @@ class ExecutableCache implements Disposable {
     return executable;
   }
 
+  /**
+   * Checks if some of the workspace settings for the URI are ignored because
+   * the workspace isn't trusted.
+   *
+   * @param uri The URI that `protolint` should work with.
+   */
+  isRestricted(uri: Uri): boolean {
+    if (workspace.isTrusted) {
+      return false;
+    }
+
+    const configuration = workspace.getConfiguration(CONFIG_SECTION, uri);
+
+    return RESTRICTED_CONFIG_KEYS.some((key) => {
+      const setting = configuration.inspect(key);
+
+      return (
+        setting?.workspaceValue !== undefined ||
+        setting?.workspaceFolderValue !== undefined
+      );
+    });
+  }
+
   private async _addFolders(
     folders: readonly WorkspaceFolder[],
   ): Promise<void> {
     for (const folder of folders) {
       const configuration = workspace.getConfiguration(CONFIG_SECTION, folder);
 
-      const setting =
-        configuration.inspect<string>(CONFIG_COMMAND_KEY)?.workspaceFolderValue;
+      // Untrusted workspace may run an arbitrary executable.
+      const setting = workspace.isTrusted
+        ? configuration.inspect<string>(CONFIG_COMMAND_KEY)
+            ?.workspaceFolderValue
+        : undefined;
 
       if (setting === undefined) {
         this._removeFolders([folder]);
@@ -416,7 +464,7 @@ class ExecutableCache implements Disposable {
 
     await this._addFolders(folders);
 
-    if (setting?.workspaceValue === undefined) {
+    if (!workspace.isTrusted || setting?.workspaceValue === undefined) {
       if (this.#workspace !== undefined) {
         this.#workspace.dispose();
         this.#workspace = undefined;
@@ -1,7 +1,8 @@
 import package_ from '../package.json' with { type: 'json' };
 
-import type { DocumentSelector, TextDocument } from 'vscode';
+import type { DocumentSelector, TextDocument, Uri } from 'vscode';
 
+import type { TConfigChange } from './config-editor.js';
 import type { Diagnostics } from './diagnostics.js';
 import type { Executable } from './executable.js';
 
@@ -29,6 +30,11 @@ const CONFIG_SECTION = 'protolint';
  * The command identifier for reindenting a document text.
  */
 const EDITOR_COMMAND_FIX_INDENTS = 'protolint.editorFixIndents';
+
+/**
+ * The command identifier for reviewing the autofix changes before applying.
+ */
+const EDITOR_COMMAND_AUTOFIX_PREVIEW = 'protolint.editorAutofixPreview';
 const {
   commands: [
     { command: EDITOR_COMMAND_LINT } = { command: 'protolint.editorLint' },
@@ -59,16 +65,46 @@ const FAILOVER_PROTOLINT_COMMAND = 'protolint';
 const DIAGNOSTICS_COLLECTION_NAME = 'protolint';
 
 /**
- * `protolint` config file basename.
+ * `protolint` config file basenames in the order of precedence.
+ */
+const CONFIG_BASENAMES = [
+  '.protolint.yaml',
+  '.protolint.yml',
+  'protolint.yaml',
+  'protolint.yml',
+] as const;
+
+/**
+ * The default `protolint` config file basename.
+ */
+const [CONFIG_BASENAME] = CONFIG_BASENAMES;
+
+/**
+ * Glob pattern to select `protolint` config files.
+ */
+const CONFIG_GLOB = `**/{${CONFIG_BASENAMES.join(',')}}`;
+
+/**
+ * The maximum number of files passed to one `protolint` process.
+ */
+const LINT_BATCH_SIZE = 32;
+
+/**
+ * File extension of protocol buffer files.
  */
-const CONFIG_BASENAME = '.protolint.yaml';
+const PROTOBUF_EXTENSION = '.proto';
+
+/**
+ * Glob pattern to select protocol buffer files.
+ */
+const PROTOBUF_GLOB = `**/*${PROTOBUF_EXTENSION}`;
 
 /**
  * Document filter to select protocol buffer documents.
  */
 const PROTOBUF_SELECTOR: DocumentSelector = [
   { language: SUPPORTED_LANGUAGE_ID, scheme: 'untitled' },
-  { pattern: '**/*.proto', scheme: 'file' },
+  { pattern: PROTOBUF_GLOB, scheme: 'file' },
 ];
 
 /**
@@ -87,6 +123,11 @@ type TResult<T, E> =
   | { error: E; result: 'error' }
   | { result: 'success'; value: T };
 
+/**
+ * The command identifier for autofixing protobuf files and folders via
+ * `protolint`.
+ */
+const COMMAND_AUTOFIX_FILES = 'protolint.autofixFiles';
 /**
  * The command identifier for fixing `protolint` executable.
  */
@@ -95,18 +136,32 @@ const COMMAND_FIX_EXECUTABLE_COMMAND = 'protolint.fixExecutableCommand';
  * The command identifier for linting multiple documents vai `protolint`.
  */
 const COMMAND_LINT_DOCUMENTS = 'protolint.lintDocuments';
+/**
+ * The command identifier for linting all protobuf files in the workspace via
+ * `protolint`.
+ */
+const COMMAND_LINT_WORKSPACE = 'protolint.lintWorkspace';
+/**
+ * The command identifier for turning a rule off in `protolint` config file.
+ */
+const COMMAND_UPDATE_CONFIG = 'protolint.updateConfig';
 
 /**
  * The extension commands.
  */
 // eslint-disable-next-line @typescript-eslint/consistent-type-definitions
 type TExtensionCommands = {
+  [COMMAND_AUTOFIX_FILES]: (uri?: Uri, uris?: Uri[]) => Promise<void>;
   [COMMAND_FIX_EXECUTABLE_COMMAND]: (executable: Executable) => void;
   [COMMAND_LINT_DOCUMENTS]: (
     documents: TextDocument[],
-  ) => Promise<
-    PromiseSettledResult<Awaited<ReturnType<Diagnostics['refresh']>>>[]
-  >;
+  ) => ReturnType<Diagnostics['refreshDocuments']>;
+  [COMMAND_LINT_WORKSPACE]: () => Promise<void>;
+  [COMMAND_UPDATE_CONFIG]: (
+    uri: Uri,
+    rule: string,
+    change: TConfigChange,
+  ) => Promise<void>;
 };
 
 /**
@@ -123,23 +178,43 @@ const AUTO_DISABLE_MODES = ['next', 'none', 'this'] as const;
  */
 type TAutoDisableMode = (typeof AUTO_DISABLE_MODES)[number];
 
-export type { TAutoDisableMode, TExtensionCommands, TResult };
+/**
+ * `protolint.run` setting values: when the documents are linted automatically.
+ */
+const RUN_MODES = ['manual', 'onSave', 'onType'] as const;
+
+/**
+ * `protolint.run` setting values: when the documents are linted automatically.
+ */
+type TRunMode = (typeof RUN_MODES)[number];
+
+export type { TAutoDisableMode, TExtensionCommands, TResult, TRunMode };
 export {
   AUTO_DISABLE_MODES,
+  COMMAND_AUTOFIX_FILES,
   COMMAND_FIX_EXECUTABLE_COMMAND,
   COMMAND_LINT_DOCUMENTS,
+  COMMAND_LINT_WORKSPACE,
+  COMMAND_UPDATE_CONFIG,
   CONFIG_BASENAME,
+  CONFIG_BASENAMES,
+  CONFIG_GLOB,
   CONFIG_SECTION,
   DIAGNOSTIC_SOURCE,
   DIAGNOSTICS_COLLECTION_NAME,
   EDITOR_COMMAND_AUTOFIX,
+  EDITOR_COMMAND_AUTOFIX_PREVIEW,
   EDITOR_COMMAND_FIX_INDENTS,
   EDITOR_COMMAND_LINT,
   EXTENSION_ID,
   FAILOVER_PROTOLINT_COMMAND,
+  LINT_BATCH_SIZE,
+  PROTOBUF_EXTENSION,
+  PROTOBUF_GLOB,
   PROTOBUF_SELECTOR,
   PROTOLINT_REPO_URI,
   PROTOLINT_RULES_URI,
+  RUN_MODES,
   RUNTIME_ERROR_CODE,
   SUPPORTED_LANGUAGE_ID,
   SUPPORTED_LANGUAGE_IDS,
@@ -1,7 +1,5 @@
 import {
   commands,
-  Diagnostic,
-  DiagnosticSeverity,
   languages,
   TextDocumentChangeReason,
   window,
@@ -11,23 +9,149 @@ import {
 import { ExecutableCache } from './config.js';
 import {
   COMMAND_LINT_DOCUMENTS,
-  CONFIG_BASENAME,
-  DIAGNOSTIC_SOURCE,
+  CONFIG_GLOB,
+  CONFIG_SECTION,
   DIAGNOSTICS_COLLECTION_NAME,
   EDITOR_COMMAND_LINT,
+  LINT_BATCH_SIZE,
   PROTOBUF_SELECTOR,
-  RUNTIME_ERROR_CODE,
+  RUN_MODES,
 } from './constants.js';
 import { DocumentMirror } from './document-mirror.js';
-import { ProtolintExitCode } from './executable.js';
-import { getConfigPath, registerCommand } from './helpers.js';
-import { parseJsonStderr } from './json-report-parser.js';
+import { ExecuteErrorCode, ProtolintExitCode } from './executable.js';
+import {
+  CONFIG_CONFIG_PATH_SECTION,
+  getConfigPath,
+  isAffectedByConfig,
+  registerCommand,
+  runConcurrently,
+} from './helpers.js';
+import {
+  lintDiagnostics,
+  LintReportErrorCode,
+  parseReport,
+  splitResult,
+} from './lint-report.js';
+import { getDebounceDelay, LintScheduler } from './lint-scheduler.js';
 import { logger } from './logger.js';
 import { Measure } from './performance.js';
-import { ProtolintDiagnostic } from './rule-mapper.js';
-import { runtimeErrorRange } from './runtime-error.js';
+import { getFileConfig } from './protolint-config.js';
+import { CONFIG_SEVERITY_SECTION } from './severity.js';
+import {
+  CONFIG_REPORT_UNUSED_DIRECTIVES_SECTION,
+  findDirectives,
+  reportsUnusedDirectives,
+  stripDirectives,
+  UnusedDirectiveDiagnostic,
+  unusedDirectiveDiagnostics,
+} from './unused-directives.js';
+import { WorkspaceLinter } from './workspace-linter.js';
+
+import type { Diagnostic, ExtensionContext, TextDocument, Uri } from 'vscode';
+
+import type { TRunMode } from './constants.js';
+import type { Executable, IExecuteResult } from './executable.js';
+import type { IJsonLintsItem } from './json-report-parser.js';
+
+/**
+ * Lint trigger mode configuration key in VS Code Settings.
+ */
+const CONFIG_RUN_KEY = 'run';
+/**
+ * Lint trigger mode VS Code name.
+ */
+const CONFIG_RUN_SECTION = `${CONFIG_SECTION}.${CONFIG_RUN_KEY}`;
+
+/**
+ * The settings which change the linting result of the documents and files on
+ * disk.
+ */
+const LINT_RESULT_SECTIONS = [
+  CONFIG_CONFIG_PATH_SECTION,
+  CONFIG_SEVERITY_SECTION,
+] as const;
+
+/**
+ * The settings which change the linting result of the documents only.
+ */
+const DOCUMENT_LINT_RESULT_SECTIONS = [
+  ...LINT_RESULT_SECTIONS,
+  CONFIG_REPORT_UNUSED_DIRECTIVES_SECTION,
+] as const;
+
+/**
+ * The maximum number of `protolint` processes run at once when refreshing
+ * multiple documents.
+ */
+const MAX_LINT_PROCESSES = 4;
+
+/**
+ * The options `protolint` linted the document with.
+ */
+interface ILintContext {
+  configPath: string | undefined;
+  executable: Executable;
+
+  /**
+   * The rules ignored for the document via `protolint` config.
+   */
+  ignoredRules: ReadonlySet<string>;
+
+  /**
+   * Stops linting when aborted.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * A document reflected via {@link DocumentMirror} for linting.
+ */
+interface IReflectedDocument {
+  document: TextDocument;
+
+  /**
+   * The file URI of the document reflection.
+   */
+  fileUri: Uri;
+
+  /**
+   * The rules ignored for the document via `protolint` config.
+   */
+  ignoredRules: ReadonlySet<string>;
 
-import type { ExtensionContext, TextDocument, WorkspaceFolder } from 'vscode';
+  /**
+   * The reflected document version.
+   */
+  version: number;
+}
+
+/**
+ * Reflected documents which can be linted in one `protolint` process.
+ */
+interface IRefreshBatch {
+  configPath: string | undefined;
+
+  /**
+   * CWD for running `protolint` process.
+   */
+  cwd: string;
+  documents: IReflectedDocument[];
+  executable: Executable;
+}
+
+interface IRefreshOptions {
+  /**
+   * Lints the document file on disk instead of its reflection via
+   * {@link DocumentMirror}, so that the unsaved changes are never linted.
+   * Ignored when the document isn't a file.
+   */
+  saved?: boolean;
+
+  /**
+   * Stops refreshing the diagnostics when aborted.
+   */
+  signal?: AbortSignal;
+}
 
 /**
  * Manages diagnostics produced by `protolint`.
@@ -40,9 +164,15 @@ class Diagnostics {
   private static _instance: Diagnostics | undefined;
 
   readonly #executableCache: ExecutableCache;
+  readonly #scheduler = new LintScheduler();
+  readonly #workspaceLinter: WorkspaceLinter;
 
-  private constructor(executableCache: ExecutableCache) {
+  private constructor(
+    executableCache: ExecutableCache,
+    workspaceLinter: WorkspaceLinter,
+  ) {
     this.#executableCache = executableCache;
+    this.#workspaceLinter = workspaceLinter;
   }
 
   /**
@@ -56,14 +186,21 @@ class Diagnostics {
     }
 
     const { subscriptions: disposables } = context;
+    const executableCache = await ExecutableCache.getInstance(context);
     const diagnostics = new Diagnostics(
-      await ExecutableCache.getInstance(context),
+      executableCache,
+      WorkspaceLinter.initialize(
+        context,
+        this._diagnosticCollection,
+        executableCache,
+      ),
     );
 
     this._instance = diagnostics;
 
     disposables.push(
       this._diagnosticCollection,
+      diagnostics.#scheduler,
       commands.registerTextEditorCommand(
         EDITOR_COMMAND_LINT,
         ({ document }) => {
@@ -75,34 +212,26 @@ class Diagnostics {
     if (window.activeTextEditor) {
       const { document } = window.activeTextEditor;
 
-      void diagnostics.refresh(document);
+      void diagnostics._refreshByRunMode(document);
     }
 
     disposables.push(
       registerCommand(COMMAND_LINT_DOCUMENTS, async function (documents) {
-        const uniqueDocuments = [...new Set(documents)];
-
-        return Promise.allSettled(
-          uniqueDocuments.map(async (document) =>
-            diagnostics.refresh(document),
-          ),
-        );
+        return diagnostics.refreshDocuments(documents);
       }),
     );
 
-    const watcher = workspace.createFileSystemWatcher(`**/${CONFIG_BASENAME}`);
+    const watcher = workspace.createFileSystemWatcher(CONFIG_GLOB);
 
     disposables.push(watcher);
     watcher.onDidCreate(
       (configUri) => {
         logger.trace(
-          `[File watcher] '${CONFIG_BASENAME}' create event:`,
+          `[File watcher] Config file create event:`,
           configUri.toString(),
         );
 
-        diagnostics.processConfigChange(
-          workspace.getWorkspaceFolder(configUri),
-        );
+        void diagnostics.processConfigChange(configUri);
       },
       undefined,
       disposables,
@@ -110,13 +239,11 @@ class Diagnostics {
     watcher.onDidChange(
       (configUri) => {
         logger.trace(
-          `[File watcher] '${CONFIG_BASENAME}' change event:`,
+          `[File watcher] Config file change event:`,
           configUri.toString(),
         );
 
-        diagnostics.processConfigChange(
-          workspace.getWorkspaceFolder(configUri),
-        );
+        void diagnostics.processConfigChange(configUri);
       },
       undefined,
       disposables,
@@ -124,13 +251,11 @@ class Diagnostics {
     watcher.onDidDelete(
       (configUri) => {
         logger.trace(
-          `[File watcher] '${CONFIG_BASENAME}' delete event:`,
+          `[File watcher] Config file delete event:`,
           configUri.toString(),
         );
 
-        diagnostics.processConfigChange(
-          workspace.getWorkspaceFolder(configUri),
-        );
+        void diagnostics.processConfigChange(configUri);
       },
       undefined,
       disposables,
@@ -149,6 +274,7 @@ class Diagnostics {
           uri.toString(),
         );
 
+        diagnostics.#scheduler.cancel(uri);
         this._diagnosticCollection.delete(uri);
 
         const mirror = await DocumentMirror.getInstance();
@@ -170,14 +296,14 @@ class Diagnostics {
           );
         }
 
-        await diagnostics.refresh(document);
+        await diagnostics._refreshByRunMode(document);
       },
       undefined,
       disposables,
     );
 
     workspace.onDidChangeTextDocument(
-      async ({
+      ({
         contentChanges: { length },
         document,
         document: { isDirty, uri, version },
@@ -193,12 +319,94 @@ class Diagnostics {
           );
         }
 
+        if (getRunMode(document) !== 'onType') {
+          return;
+        }
+
         if (
           length ||
           reason === TextDocumentChangeReason.Redo ||
           reason === TextDocumentChangeReason.Undo
         ) {
-          await diagnostics.refresh(document);
+          diagnostics.#scheduler.schedule(
+            uri,
+            getDebounceDelay(document),
+            async (signal) => diagnostics.refresh(document, { signal }),
+          );
+        }
+      },
+      undefined,
+      disposables,
+    );
+
+    workspace.onDidSaveTextDocument(
+      async (document) => {
+        if (
+          !languages.match(PROTOBUF_SELECTOR, document) ||
+          getRunMode(document) !== 'onSave'
+        ) {
+          return;
+        }
+
+        logger.trace(
+          `[Diagnostics] Document save event, refreshing diagnostics:`,
+          document.uri.toString(),
+        );
+
+        diagnostics.#scheduler.cancel(document.uri);
+        await diagnostics.refresh(document, { saved: true });
+      },
+      undefined,
+      disposables,
+    );
+
+    workspace.onDidChangeConfiguration(
+      (event) => {
+        if (!event.affectsConfiguration(CONFIG_RUN_SECTION)) {
+          return;
+        }
+
+        const affectedDocuments = workspace.textDocuments.filter((document) =>
+          event.affectsConfiguration(CONFIG_RUN_SECTION, document),
+        );
+
+        for (const document of affectedDocuments) {
+          void diagnostics._refreshByRunMode(document);
+        }
+      },
+      undefined,
+      disposables,
+    );
+
+    workspace.onDidChangeConfiguration(
+      (event) => {
+        if (
+          !DOCUMENT_LINT_RESULT_SECTIONS.some((section) =>
+            event.affectsConfiguration(section),
+          )
+        ) {
+          return;
+        }
+
+        const affectedDocuments = workspace.textDocuments
+          .filter(({ uri }) => this._diagnosticCollection.has(uri))
+          .filter((document) =>
+            DOCUMENT_LINT_RESULT_SECTIONS.some((section) =>
+              event.affectsConfiguration(section, document),
+            ),
+          );
+
+        void diagnostics._refreshDocumentsByRunMode(affectedDocuments);
+
+        const affectedFolders =
+          workspace.workspaceFolders?.filter((folder) =>
+            LINT_RESULT_SECTIONS.some((section) =>
+              event.affectsConfiguration(section, folder),
+            ),
+          ) ?? [];
+
+        for (const folder of affectedFolders) {
+          void diagnostics.#workspaceLinter.refreshFolder(folder);
         }
       },
       undefined,
@@ -209,8 +417,16 @@ class Diagnostics {
       ({ files }) => {
         logger.trace(`[Diagnostics] Rename event for file(s):`, files);
 
-        for (const { oldUri } of files) {
+        for (const { newUri, oldUri } of files) {
           this._diagnosticCollection.delete(oldUri);
+
+          const document = workspace.textDocuments.find(
+            ({ uri }) => uri.toString() === newUri.toString(),
+          );
+
+          if (document !== undefined) {
+            void diagnostics._refreshByRunMode(document);
+          }
         }
       },
       undefined,
@@ -232,29 +448,47 @@ class Diagnostics {
             ),
           );
 
-        for (const document of affectedDocuments) {
-          await diagnostics.refresh(document);
-        }
+        await diagnostics._refreshDocumentsByRunMode(affectedDocuments);
       },
       undefined,
       disposables,
     );
   }
 
-  processConfigChange(workspaceFolder: undefined | WorkspaceFolder): void {
-    if (workspaceFolder === undefined) {
-      return;
-    }
-
-    const affectedDocuments = workspace.textDocuments
-      .filter(({ uri }) => Diagnostics._diagnosticCollection.has(uri))
-      .filter(
-        ({ uri }) => workspace.getWorkspaceFolder(uri) === workspaceFolder,
-      );
+  /**
+   * Gets the current unused directive diagnostics for a document.
+   *
+   * @param uri The document URI.
+   */
+  private static _unusedDirectives(uri: Uri): UnusedDirectiveDiagnostic[] {
+    return (Diagnostics._diagnosticCollection.get(uri) ?? []).filter(
+      (diagnostic) => diagnostic instanceof UnusedDirectiveDiagnostic,
+    );
+  }
 
-    for (const document of affectedDocuments) {
-      void this.refresh(document);
+  /**
+   * Refreshes diagnostics for the documents and files on disk affected by
+   * `protolint` config file changes. The documents are linted according to
+   * `protolint.run` setting.
+   *
+   * @param configUri The created, changed or deleted config file URI.
+   */
+  async processConfigChange(configUri: Uri): Promise<void> {
+    const affectedDocuments: TextDocument[] = [];
+
+    for (const document of workspace.textDocuments) {
+      if (
+        Diagnostics._diagnosticCollection.has(document.uri) &&
+        (await isAffectedByConfig(document.uri, configUri))
+      ) {
+        affectedDocuments.push(document);
+      }
     }
+
+    await Promise.all([
+      this._refreshDocumentsByRunMode(affectedDocuments),
+      this.#workspaceLinter.refreshConfig(configUri),
+    ]);
   }
 
   /**
@@ -263,14 +497,21 @@ class Diagnostics {
    * If the document is not identified as protocol buffer, the diagnostics won't
    * be refreshed.
    *
+   * The result is discarded if the document has been changed while linting,
+   * so that older diagnostics don't overwrite the newer ones.
+   *
    * @param document A document to get the diagnostics refreshed.
+   * @param options The refresh options.
    */
-  async refresh(document: TextDocument): Promise<void> {
+  async refresh(
+    document: TextDocument,
+    { saved = false, signal }: IRefreshOptions = {},
+  ): Promise<void> {
     if (!languages.match(PROTOBUF_SELECTOR, document)) {
       return;
     }
 
-    const { uri } = document;
+    const { isDirty, uri, version } = document;
 
     if (!document.getText()) {
       Diagnostics._diagnosticCollection.set(uri, []);
@@ -279,12 +520,51 @@ class Diagnostics {
     }
 
     using measure = new Measure('info', `Lint ${uri.toString()}`);
+    const executable = this.#executableCache.getExecutable(uri);
+    let ignoredRules;
     let lint;
+    let unusedDirectives: UnusedDirectiveDiagnostic[] = [];
 
     try {
-      lint = await this.#executableCache
-        .getExecutable(uri)
-        .lint(uri, await getConfigPath(uri));
+      const configPath = await getConfigPath(uri);
+      const fileConfig = await getFileConfig(uri, configPath);
+
+      if (fileConfig.excluded) {
+        logger.trace(
+          `[Diagnostics] Skipping the document excluded via the config:`,
+          uri.toString(),
+        );
+        Diagnostics._diagnosticCollection.set(uri, []);
+
+        return;
+      }
+
+      ({ ignoredRules } = fileConfig);
+
+      const onDisk = saved && uri.scheme === 'file';
+
+      lint = onDisk
+        ? await executable.lintFiles(
+            [uri],
+            configPath,
+            workspace.getWorkspaceFolder(uri)?.uri.fsPath,
+            signal,
+          )
+        : await executable.lint(uri, configPath, undefined, undefined, signal);
+
+      // The directives of the unsaved changes must not be checked either, so
+      // the previous unused directive diagnostics are kept.
+      if (lint.result === 'success') {
+        unusedDirectives =
+          onDisk && isDirty
+            ? Diagnostics._unusedDirectives(uri)
+            : await this._lintUnusedDirectives(document, lint.value, {
+                configPath,
+                executable,
+                ignoredRules,
+                signal,
+              });
+      }
     } catch (error) {
       logger.error(
         `[Diagnostics] Failed linting ${uri.toString()}. Details:`,
@@ -296,6 +576,27 @@ class Diagnostics {
 
     measure.end();
 
+    if (
+      signal?.aborted === true ||
+      (lint.result === 'error' && lint.error.code === ExecuteErrorCode.Canceled)
+    ) {
+      logger.trace(`[Diagnostics] Linting canceled:`, uri.toString());
+
+      return;
+    }
+
+    // The document version is checked again, because it may have changed
+    // while linting.
+    // eslint-disable-next-line unicorn/consistent-destructuring
+    if (document.version !== version) {
+      logger.trace(
+        `[Diagnostics] Discarding stale diagnostics (version: ${version.toString()}):`,
+        uri.toString(),
+      );
+
+      return;
+    }
+
     if (lint.result === 'error') {
       logger.error(
         `[Diagnostics] Failed refreshing diagnostics ${uri.toString()}. Details:`,
@@ -305,76 +606,402 @@ class Diagnostics {
       return;
     }
 
-    const {
-      value: { exitCode, stderr },
-    } = lint;
+    this._setDiagnostics(document, lint.value, ignoredRules, unusedDirectives);
+  }
 
-    switch (exitCode) {
-      case ProtolintExitCode.Clear:
-        Diagnostics._diagnosticCollection.set(uri, []);
+  /**
+   * Refreshes diagnostics for multiple documents.
+   *
+   * The documents sharing the executable, the config file and CWD are linted
+   * in one `protolint` process. No more than {@link MAX_LINT_PROCESSES}
+   * processes run at once.
+   *
+   * @param documents Documents to get the diagnostics refreshed.
+   */
+  async refreshDocuments(documents: readonly TextDocument[]): Promise<void> {
+    const mirror = await DocumentMirror.getInstance();
+    const batches: IRefreshBatch[] = [];
+    const reflections: AsyncDisposable[] = [];
+
+    using measure = new Measure(
+      'info',
+      `Lint ${documents.length.toString()} document(s)`,
+    );
 
-        return;
+    try {
+      for (const document of new Set(documents)) {
+        if (!languages.match(PROTOBUF_SELECTOR, document)) {
+          continue;
+        }
 
-      case ProtolintExitCode.LintFlags:
-      case ProtolintExitCode.OtherErrors: {
-        if (stderr === undefined) {
-          const message = `stderr wasn't provided with protolint exit code: ${exitCode.toString()}`;
+        const { uri, version } = document;
 
-          void window.showErrorMessage(message);
-          logger.error(`[Diagnostics] ` + message);
+        this.#scheduler.cancel(uri);
 
-          return;
+        if (!document.getText()) {
+          Diagnostics._diagnosticCollection.set(uri, []);
+
+          continue;
         }
 
-        if (exitCode === ProtolintExitCode.OtherErrors) {
-          // Errors have a special format in this case, so `runtimeErrorRange`
-          // should be used.
-          const range = runtimeErrorRange(document, stderr);
-          const diagnostic = new Diagnostic(
-            range.result === 'success' ? range.value : document.lineAt(0).range,
-            stderr.trim(),
-            DiagnosticSeverity.Error,
-          );
+        const executable = this.#executableCache.getExecutable(uri);
+        let configPath;
+        let fileConfig;
+        let reflection;
 
-          diagnostic.source = DIAGNOSTIC_SOURCE;
-          diagnostic.code = RUNTIME_ERROR_CODE;
+        try {
+          configPath = await getConfigPath(uri);
+          fileConfig = await getFileConfig(uri, configPath);
 
-          Diagnostics._diagnosticCollection.set(uri, [diagnostic]);
+          if (fileConfig.excluded) {
+            Diagnostics._diagnosticCollection.set(uri, []);
 
-          return;
+            continue;
+          }
+
+          reflection = await mirror.reflect(uri, false);
+        } catch (error) {
+          logger.error(
+            `[Diagnostics] Failed reflecting ${uri.toString()}. Details:`,
+            error,
+          );
+
+          continue;
         }
 
-        const parse = parseJsonStderr(stderr);
+        if (reflection.result === 'error') {
+          logger.error(
+            `[Diagnostics] Failed reflecting ${uri.toString()}. Details:`,
+            reflection,
+          );
 
-        if (parse.result === 'error') {
-          const message = `Failed to parse protolint stderr due to an error: ${parse.error.code}`;
+          continue;
+        }
 
-          void window.showErrorMessage(message);
-          logger.error(`[Diagnostics] ` + message, parse.error);
+        reflections.push(reflection.value);
+
+        const { cwd, fileUri } = reflection.value;
+        const reflected = {
+          document,
+          fileUri,
+          ignoredRules: fileConfig.ignoredRules,
+          version,
+        };
+        const batch = batches.find(
+          (candidate) =>
+            candidate.executable === executable &&
+            candidate.configPath === configPath &&
+            candidate.cwd === cwd &&
+            candidate.documents.length < LINT_BATCH_SIZE,
+        );
 
-          return;
+        if (batch === undefined) {
+          batches.push({
+            configPath,
+            cwd,
+            documents: [reflected],
+            executable,
+          });
+        } else {
+          batch.documents.push(reflected);
         }
-        const diagnostics = parse.value.map(
-          (error) => new ProtolintDiagnostic(document, error),
+      }
+
+      await runConcurrently(
+        batches.map((batch) => async () => this._refreshBatch(batch)),
+        MAX_LINT_PROCESSES,
+      );
+    } finally {
+      for (const reflection of reflections) {
+        await reflection[Symbol.asyncDispose]();
+      }
+    }
+
+    measure.end();
+  }
+
+  /**
+   * Finds the `protolint` directives which don't suppress any linting error,
+   * if enabled via `protolint.reportUnusedDirectives` setting.
+   *
+   * The document text without the directives is linted in one more
+   * `protolint` process.
+   *
+   * @param document The linted document.
+   * @param result `protolint` result for the document.
+   * @param context The options the document was linted with.
+   * @returns The diagnostics for the unused directives.
+   */
+  private async _lintUnusedDirectives(
+    document: TextDocument,
+    { exitCode }: IExecuteResult,
+    { configPath, executable, ignoredRules, signal }: ILintContext,
+  ): Promise<UnusedDirectiveDiagnostic[]> {
+    // The directives can't be checked if `protolint` fails parsing the
+    // document.
+    if (
+      exitCode === ProtolintExitCode.OtherErrors ||
+      !reportsUnusedDirectives(document)
+    ) {
+      return [];
+    }
+
+    const directives = findDirectives(document);
+
+    if (directives.length === 0) {
+      return [];
+    }
+
+    const { uri } = document;
+    const mirror = await DocumentMirror.getInstance();
+    const reflection = await mirror.reflect(
+      uri,
+      false,
+      stripDirectives(document, directives),
+    );
+
+    if (reflection.result === 'error') {
+      logger.error(
+        `[Diagnostics] Failed reflecting ${uri.toString()} without directives. Details:`,
+        reflection,
+      );
+
+      return [];
+    }
+
+    await using disposable = reflection.value;
+    const { cwd, fileUri } = disposable;
+    const lint = await executable.lintFiles([fileUri], configPath, cwd, signal);
+
+    if (lint.result === 'error') {
+      if (lint.error.code !== ExecuteErrorCode.Canceled) {
+        logger.error(
+          `[Diagnostics] Failed linting ${uri.toString()} without directives. Details:`,
+          lint,
         );
+      }
 
-        Diagnostics._diagnosticCollection.set(uri, diagnostics);
+      return [];
+    }
 
-        return;
+    const { reportFormat, stderr } = lint.value;
+    let items: IJsonLintsItem[];
+
+    switch (lint.value.exitCode) {
+      case ProtolintExitCode.Clear:
+        items = [];
+        break;
+
+      case ProtolintExitCode.LintFlags: {
+        const parse = parseReport(stderr ?? '', reportFormat);
+
+        if (parse.result === 'error') {
+          logger.error(
+            `[Diagnostics] Failed parsing ${uri.toString()} linting errors without directives. Details:`,
+            parse.error,
+          );
+
+          return [];
+        }
+
+        items = parse.value;
+        break;
       }
 
-      // undefined or unexpected exit code value.
-      default: {
-        // eslint-disable-next-line @typescript-eslint/restrict-template-expressions
-        const message = `Protolint returned an unexpected exit code ${exitCode}. Can't refresh errors`;
+      // Removing the directives has broken the document.
+      case ProtolintExitCode.OtherErrors:
+        return [];
+    }
+
+    return unusedDirectiveDiagnostics(
+      document,
+      directives,
+      items.filter(({ rule }) => !ignoredRules.has(rule)),
+    );
+  }
 
-        void window.showErrorMessage(message);
-        logger.error(`[Diagnostics] ` + message);
+  /**
+   * Refreshes diagnostics for the reflected documents linted in one
+   * `protolint` process.
+   *
+   * @param batch The reflected documents to lint.
+   */
+  private async _refreshBatch({
+    configPath,
+    cwd,
+    documents,
+    executable,
+  }: IRefreshBatch): Promise<void> {
+    const fileUris = documents.map(({ fileUri }) => fileUri);
+    const files = fileUris.length.toString();
+    let lint;
+
+    try {
+      lint = await executable.lintFiles(fileUris, configPath, cwd);
+    } catch (error) {
+      logger.error(
+        `[Diagnostics] Failed linting ${files} document(s). Details:`,
+        error,
+      );
+
+      return;
+    }
+
+    if (lint.result === 'error') {
+      logger.error(
+        `[Diagnostics] Failed linting ${files} document(s). Details:`,
+        lint,
+      );
+
+      return;
+    }
+
+    const split = splitResult(lint.value, fileUris, cwd);
+
+    if (split.result === 'error') {
+      // `protolint` doesn't tell which file can't be linted, e.g. due to a
+      // protobuf syntax error, so the documents are linted one by one.
+      if (split.error.code === LintReportErrorCode.Ambiguous) {
+        for (const { document } of documents) {
+          await this.refresh(document);
+        }
 
         return;
       }
+
+      logger.error(`[Diagnostics] ` + split.error.message, split.error);
+
+      return;
+    }
+
+    for (const { document, fileUri, ignoredRules, version } of documents) {
+      const result = split.value.get(fileUri);
+
+      if (result === undefined || document.isClosed) {
+        continue;
+      }
+
+      let unusedDirectives;
+
+      try {
+        unusedDirectives = await this._lintUnusedDirectives(document, result, {
+          configPath,
+          executable,
+          ignoredRules,
+        });
+      } catch (error) {
+        logger.error(
+          `[Diagnostics] Failed linting ${document.uri.toString()} without directives. Details:`,
+          error,
+        );
+
+        continue;
+      }
+
+      if (document.version !== version) {
+        logger.trace(
+          `[Diagnostics] Discarding stale diagnostics (version: ${version.toString()}):`,
+          document.uri.toString(),
+        );
+
+        continue;
+      }
+
+      this._setDiagnostics(document, result, ignoredRules, unusedDirectives);
     }
   }
+
+  /**
+   * Refreshes diagnostics for a document if `protolint.run` setting allows
+   * linting it automatically.
+   *
+   * @param document A document to get the diagnostics refreshed.
+   */
+  private async _refreshByRunMode(document: TextDocument): Promise<void> {
+    switch (getRunMode(document)) {
+      case 'manual':
+        return;
+
+      case 'onSave':
+        return this.refresh(document, { saved: true });
+
+      case 'onType':
+        return this.refresh(document);
+    }
+  }
+
+  /**
+   * Refreshes diagnostics for the documents which `protolint.run` setting
+   * allows linting automatically. The `onType` documents are linted in
+   * batches, and the `onSave` documents are linted as saved on disk.
+   *
+   * @param documents Documents to get the diagnostics refreshed.
+   */
+  private async _refreshDocumentsByRunMode(
+    documents: readonly TextDocument[],
+  ): Promise<void> {
+    const savedDocuments = documents.filter(
+      (document) => getRunMode(document) === 'onSave',
+    );
+
+    await Promise.all([
+      this.refreshDocuments(
+        documents.filter((document) => getRunMode(document) === 'onType'),
+      ),
+      runConcurrently(
+        savedDocuments.map(
+          (document) => async () => this.refresh(document, { saved: true }),
+        ),
+        MAX_LINT_PROCESSES,
+      ),
+    ]);
+  }
+
+  /**
+   * Sets the document diagnostics from `protolint` result.
+   *
+   * @param document The linted document.
+   * @param result `protolint` result for the document.
+   * @param ignoredRules The rules ignored for the document via `protolint`
+   * config.
+   * @param unusedDirectives The diagnostics for the unused `protolint`
+   * directives.
+   */
+  private _setDiagnostics(
+    document: TextDocument,
+    result: IExecuteResult,
+    ignoredRules: ReadonlySet<string>,
+    unusedDirectives: readonly Diagnostic[] = [],
+  ): void {
+    const diagnostics = lintDiagnostics(document, result, ignoredRules);
+
+    if (diagnostics.result === 'error') {
+      const { message } = diagnostics.error;
+
+      void window.showErrorMessage(message);
+      logger.error(`[Diagnostics] ` + message, diagnostics.error);
+
+      return;
+    }
+
+    Diagnostics._diagnosticCollection.set(document.uri, [
+      ...diagnostics.value,
+      ...unusedDirectives,
+    ]);
+  }
+}
+
+/**
+ * Gets the lint trigger mode for the document from VS Code Settings.
+ *
+ * @param document The document to get the setting for.
+ */
+function getRunMode(document: TextDocument): TRunMode {
+  const mode = workspace
+    .getConfiguration(CONFIG_SECTION, document)
+    .get<string>(CONFIG_RUN_KEY);
+
+  return RUN_MODES.find((value) => value === mode) ?? 'onType';
 }
 
 export { Diagnostics };
@@ -0,0 +1,378 @@
+import { CodeAction, EndOfLine, Position, Range, WorkspaceEdit } from 'vscode';
+
+import { TokenMap } from './protobuf-parser.js';
+import { PROTOLINT_QUICK_FIX } from './rule-mapper.js';
+
+import type { TextDocument } from 'vscode';
+
+import type { ITokenRange } from './protobuf-parser.js';
+import type { ProtolintDiagnostic } from './rule-mapper.js';
+
+/**
+ * `protolint` comment directive kinds.
+ *
+ * {@link https://github.com/yoheimuta/protolint/blob/v0.50.0/README.md#rules}
+ */
+enum DirectiveKind {
+  Disable = 'protolint:disable',
+  DisableNext = 'protolint:disable:next',
+  DisableThis = 'protolint:disable:this',
+  Enable = 'protolint:enable',
+}
+
+/**
+ * A `protolint` directive found in a comment.
+ */
+interface IDirective {
+  /**
+   * The comment containing the directive.
+   */
+  comment: Range;
+  kind: DirectiveKind;
+
+  /**
+   * The directive text range. More rule IDs can be inserted at its end.
+   */
+  range: Range;
+
+  /**
+   * The rule IDs listed in the directive.
+   */
+  rules: string[];
+}
+
+/**
+ * The comments of a document version.
+ */
+interface IDocumentComments {
+  /**
+   * The comments of each line, indexed by zero-based line number.
+   */
+  comments: ITokenRange[][];
+  version: number;
+}
+
+const DIRECTIVE_PATTERN =
+  /(?<kind>protolint:(?:disable:next|disable:this|disable|enable))(?<rules>(?:[ \t]+[A-Z\d_]+)*)/;
+
+/**
+ * The document comments found for the quick fixes. The quick fixes are
+ * created for each diagnostic, so the document is parsed once per version.
+ */
+const documentComments = new WeakMap<TextDocument, IDocumentComments>();
+
+/**
+ * Lists the lines of the comment block starting at the line, skipping blank
+ * lines.
+ *
+ * @param start A zero-based line number to start from.
+ * @param step `1` to go down, `-1` to go up.
+ */
+function commentBlockLines(
+  document: TextDocument,
+  start: number,
+  step: -1 | 1,
+): number[] {
+  const lines: number[] = [];
+  let line = start;
+
+  while (line >= 0 && line < document.lineCount) {
+    const text = document.lineAt(line).text.trim();
+
+    if (text !== '' && !text.startsWith('//')) {
+      break;
+    }
+
+    lines.push(line);
+    line += step;
+  }
+
+  return lines;
+}
+
+function directiveAction(
+  title: string,
+  diagnostic: ProtolintDiagnostic,
+  edit: WorkspaceEdit,
+): CodeAction {
+  const action = new CodeAction(title, PROTOLINT_QUICK_FIX);
+
+  action.edit = edit;
+  action.diagnostics = [diagnostic];
+
+  return action;
+}
+
+/**
+ * Creates the quick fixes suppressing the diagnostic with `protolint`
+ * directive comments:
+ * - `protolint:disable:this` for the reported line.
+ * - `protolint:disable:next` above the reported line.
+ * - `protolint:disable` and `protolint:enable` pair around the whole file.
+ *
+ * The rule is added to an existing directive of the same kind, if any.
+ *
+ * @param document The target document.
+ * @param diagnostic The diagnostic to suppress.
+ */
+function disableActions(
+  document: TextDocument,
+  diagnostic: ProtolintDiagnostic,
+): CodeAction[] {
+  const { rule } = diagnostic.error;
+  const { line } = document.validatePosition(
+    new Position(diagnostic.error.line - 1, 0),
+  );
+  const eol = document.eol === EndOfLine.CRLF ? '\r\n' : '\n';
+  const actions: CodeAction[] = [];
+
+  const thisEdit = disableThisEdit(document, line, rule);
+
+  if (thisEdit !== undefined) {
+    actions.push(
+      directiveAction(`Disable ${rule} for this line`, diagnostic, thisEdit),
+    );
+  }
+
+  const nextEdit = disableNextEdit(document, line, rule, eol);
+
+  if (nextEdit !== undefined) {
+    actions.push(
+      directiveAction(`Disable ${rule} for next line`, diagnostic, nextEdit),
+    );
+  }
+
+  const fileEdit = disableFileEdit(document, rule, eol);
+
+  if (fileEdit !== undefined) {
+    actions.push(
+      directiveAction(
+        `Disable ${rule} for the entire file`,
+        diagnostic,
+        fileEdit,
+      ),
+    );
+  }
+
+  return actions;
+}
+
+/**
+ * Adds `protolint:disable` directive at the top of the document and
+ * `protolint:enable` directive at the bottom.
+ *
+ * @returns `undefined` if the rule is already disabled at the top.
+ */
+function disableFileEdit(
+  document: TextDocument,
+  rule: string,
+  eol: string,
+): undefined | WorkspaceEdit {
+  const disable = findDirective(
+    document,
+    commentBlockLines(document, 0, 1),
+    DirectiveKind.Disable,
+  );
+
+  if (disable?.rules.includes(rule) === true) {
+    return;
+  }
+
+  const edit = new WorkspaceEdit();
+  const { lineCount, uri } = document;
+
+  if (disable === undefined) {
+    edit.insert(
+      uri,
+      new Position(0, 0),
+      `// ${DirectiveKind.Disable} ${rule}${eol}`,
+    );
+  } else {
+    edit.insert(uri, disable.range.end, ` ${rule}`);
+  }
+
+  const lastLine = document.lineAt(lineCount - 1);
+  const enable = findDirective(
+    document,
+    commentBlockLines(document, lastLine.lineNumber, -1),
+    DirectiveKind.Enable,
+  );
+
+  if (enable === undefined) {
+    edit.insert(
+      uri,
+      lastLine.range.end,
+      lastLine.isEmptyOrWhitespace
+        ? `// ${DirectiveKind.Enable} ${rule}${eol}`
+        : `${eol}// ${DirectiveKind.Enable} ${rule}`,
+    );
+  } else if (!enable.rules.includes(rule)) {
+    edit.insert(uri, enable.range.end, ` ${rule}`);
+  }
+
+  return edit;
+}
+
+/**
+ * Adds `protolint:disable:next` directive above the line, keeping the line
+ * indentation.
+ *
+ * @returns `undefined` if the rule is already disabled for the line.
+ */
+function disableNextEdit(
+  document: TextDocument,
+  line: number,
+  rule: string,
+  eol: string,
+): undefined | WorkspaceEdit {
+  const previousLines = line > 0 ? [line - 1] : [];
+  const directive = findDirective(
+    document,
+    previousLines,
+    DirectiveKind.DisableNext,
+  );
+
+  if (directive?.rules.includes(rule) === true) {
+    return;
+  }
+
+  const edit = new WorkspaceEdit();
+
+  if (directive === undefined) {
+    const { firstNonWhitespaceCharacterIndex, text } = document.lineAt(line);
+    const indent = text.slice(0, firstNonWhitespaceCharacterIndex);
+
+    edit.insert(
+      document.uri,
+      new Position(line, 0),
+      `${indent}// ${DirectiveKind.DisableNext} ${rule}${eol}`,
+    );
+  } else {
+    edit.insert(document.uri, directive.range.end, ` ${rule}`);
+  }
+
+  return edit;
+}
+
+/**
+ * Adds `protolint:disable:this` directive at the end of the line.
+ *
+ * @returns `undefined` if the rule is already disabled for the line, or the
+ * line ends within a multi-line comment or with a `//` comment. `protolint`
+ * reads the directive only at the start of a comment, so it can't be appended
+ * to the existing comment.
+ */
+function disableThisEdit(
+  document: TextDocument,
+  line: number,
+  rule: string,
+): undefined | WorkspaceEdit {
+  const comments = lineComments(document, line);
+  const lastComment = comments.at(-1);
+
+  if (lastComment?.closed === false) {
+    return;
+  }
+
+  const directive = comments
+    .map((comment) => parseDirective(comment))
+    .find((item) => item?.kind === DirectiveKind.DisableThis);
+
+  if (directive?.rules.includes(rule) === true) {
+    return;
+  }
+
+  const edit = new WorkspaceEdit();
+
+  if (directive !== undefined) {
+    edit.insert(document.uri, directive.range.end, ` ${rule}`);
+  } else if (lastComment?.fullMatch.startsWith('//') === true) {
+    return;
+  } else {
+    edit.insert(
+      document.uri,
+      document.lineAt(line).range.end,
+      ` // ${DirectiveKind.DisableThis} ${rule}`,
+    );
+  }
+
+  return edit;
+}
+
+/**
+ * Finds the directive of the kind in the whole-line comments of the lines.
+ */
+function findDirective(
+  document: TextDocument,
+  lines: readonly number[],
+  kind: DirectiveKind,
+): IDirective | undefined {
+  for (const line of lines) {
+    const { firstNonWhitespaceCharacterIndex } = document.lineAt(line);
+
+    for (const comment of lineComments(document, line)) {
+      const directive = parseDirective(comment);
+
+      if (
+        directive?.kind === kind &&
+        comment.range.start.character === firstNonWhitespaceCharacterIndex
+      ) {
+        return directive;
+      }
+    }
+  }
+}
+
+/**
+ * Gets the comments of the document line. The whole document is parsed once
+ * per document version.
+ */
+function lineComments(document: TextDocument, line: number): ITokenRange[] {
+  const { version } = document;
+  let cached = documentComments.get(document);
+
+  if (cached?.version !== version) {
+    const result = new TokenMap(document).comments();
+
+    cached = {
+      comments: result.result === 'success' ? result.value : [],
+      version,
+    };
+    documentComments.set(document, cached);
+  }
+
+  return cached.comments[line] ?? [];
+}
+
+/**
+ * Parses `protolint` directive in the comment.
+ *
+ * @returns `undefined` if the comment has no directive.
+ */
+function parseDirective({
+  fullMatch,
+  range,
+}: ITokenRange): IDirective | undefined {
+  const match = DIRECTIVE_PATTERN.exec(fullMatch);
+  const kind = Object.values(DirectiveKind).find(
+    (value) => value === match?.groups?.kind,
+  );
+
+  if (match === null || kind === undefined) {
+    return;
+  }
+
+  const start = range.start.translate(0, match.index);
+
+  return {
+    comment: range,
+    kind,
+    range: new Range(start, start.translate(0, match[0].length)),
+    rules: (match.groups?.rules ?? '')
+      .split(/\s+/)
+      .filter((rule) => rule !== ''),
+  };
+}
+
+export type { IDirective };
+export { DirectiveKind, disableActions, parseDirective };
@@ -7,6 +7,7 @@ import { Uri, workspace } from 'vscode';
 import { isNodeError } from './helpers.js';
 import { logger } from './logger.js';
 import { Measure } from './performance.js';
+import { TextSnapshot } from './text-snapshot.js';
 
 import type {
   TextDocument,
@@ -221,26 +222,29 @@ class DocumentMirror implements IChangeFolders, VsDisposable {
    * If a text document content is modified, creates a temporary file with the
    * current document text.
    *
+   * The files which aren't opened in VS Code are read from disk. Their
+   * reflections are not reused.
+   *
    * @param uri The URI of the text document to reflect
    * @param autofix If `true`, creates a special temporary file to prevent the
    * original file from in-place changes by `protolint`.
+   * @param text The text to reflect instead of the document text. Such
+   * reflections are not reused.
    */
   async reflect(
     uri: Uri,
     autofix: boolean,
+    text?: string,
   ): Promise<TResult<IReflection, IReflectionError>> {
-    const document = workspace.textDocuments.find(
-      ({ uri: documentUri }) => documentUri === uri,
-    );
+    const found = await findDocument(uri);
 
-    if (document === undefined) {
-      return {
-        error: { code: DocumentReflectionErrorCode.Document },
-        result: 'error',
-      };
+    if (found.result === 'error') {
+      return found;
     }
 
+    const document = found.value;
     const {
+      isClosed,
       isDirty,
       uri: { fsPath, scheme },
       version,
@@ -248,7 +252,11 @@ class DocumentMirror implements IChangeFolders, VsDisposable {
 
     using measure = new Measure('info', `Reflecting ${uri.toString()}`);
 
-    const persist = !autofix && (scheme === 'file' || scheme === 'untitled');
+    const persist =
+      !autofix &&
+      !isClosed &&
+      text === undefined &&
+      (scheme === 'file' || scheme === 'untitled');
 
     if (persist && !isDirty && version === 1) {
       return {
@@ -300,7 +308,7 @@ class DocumentMirror implements IChangeFolders, VsDisposable {
       this.#folders.set(outermostFolder, directory);
     }
 
-    const file = await createFile(document, directory.cwd, autofix);
+    const file = await createFile(document, directory.cwd, autofix, text);
 
     if (file.result === 'error') {
       return file;
@@ -367,11 +375,13 @@ class DocumentMirror implements IChangeFolders, VsDisposable {
  * file
  * @param preventRename - if `true`, `protolint` autofix for the filename is
  * suppressed via temporary disabling the rule `FILE_NAMES_LOWER_SNAKE_CASE`.
+ * @param text - the file content to use instead of the document text
  */
 async function createFile(
   document: TextDocument,
   temporaryDirectory: string,
   preventRename: boolean,
+  text = document.getText(),
 ): Promise<TResult<IDocumentSnapshot, IReflectionError>> {
   const {
     isUntitled,
@@ -413,7 +423,7 @@ async function createFile(
 
   const PREVENT_RENAME_PREFIX =
     '// protolint:disable FILE_NAMES_LOWER_SNAKE_CASE\n';
-  let data = document.getText();
+  let data = text;
 
   if (preventRename) {
     data = PREVENT_RENAME_PREFIX + data;
@@ -506,6 +516,36 @@ async function createTemporaryDirectory(
   };
 }
 
+/**
+ * Finds the document opened in VS Code, or reads the file from disk if it's
+ * not opened.
+ *
+ * @param uri The document URI.
+ */
+async function findDocument(
+  uri: Uri,
+): Promise<TResult<TextDocument, IReflectionError>> {
+  const document = workspace.textDocuments.find(
+    ({ uri: documentUri }) => documentUri === uri,
+  );
+
+  if (document !== undefined) {
+    return { result: 'success', value: document };
+  }
+
+  try {
+    return { result: 'success', value: await TextSnapshot.fromFile(uri) };
+  } catch (error) {
+    return {
+      error: {
+        code: DocumentReflectionErrorCode.Document,
+        ...(isNodeError(error) && { error }),
+      },
+      result: 'error',
+    };
+  }
+}
+
 function getOutermostFolder(uri: Uri) {
   return getOutermostFolders().find(
     ({ uri: folderUri }) =>
@@ -1,13 +1,16 @@
 import { spawn } from 'node:child_process';
 import { once } from 'node:events';
-import { readFile } from 'node:fs/promises';
+import { readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
 import { text } from 'node:stream/consumers';
 
 import { EventEmitter, ExtensionMode, window } from 'vscode';
 
+import { CONFIG_BASENAME } from './constants.js';
 import { DocumentMirror } from './document-mirror.js';
 import { isNodeError } from './helpers.js';
 import { Measure } from './performance.js';
+import { deriveRulesConfig } from './protolint-config.js';
 
 import type {
   ExecFileException,
@@ -24,11 +27,20 @@ const AUTOFIX_METHOD = 'autofix' as const;
 const PROTOLINT_RUN_TIMEOUT = 5000;
 const UNKNOWN_VERSION = 'unknown';
 
+/**
+ * The first `protolint` version documenting SARIF reporter with the rule
+ * severity levels.
+ *
+ * {@link https://github.com/yoheimuta/protolint/blob/v0.46.1/README.md#reporters}
+ */
+const SARIF_REPORTER_VERSION = '0.46.1';
+
 /**
  * `protolint` execution error codes.
  */
 enum ExecuteErrorCode {
   Access = 'EXECUTABLE_NO_ACCESS',
+  Canceled = 'PROCESS_CANCELED',
   Scheme = 'INCORRECT_TARGET_SCHEME',
   Terminated = 'PROCESS_TERMINATED',
   Unavailable = 'EXECUTABLE_UNAVAILABLE',
@@ -66,6 +78,31 @@ function isSpawnError(value: unknown): value is { code: string } & Error {
   );
 }
 
+/**
+ * Compares `major.minor.patch` versions.
+ *
+ * @returns `false` if any of the versions can't be parsed.
+ */
+function isVersionAtLeast(version: string, minimum: string): boolean {
+  const [actual, expected] = [version, minimum].map((value) =>
+    /^(\d+)\.(\d+)\.(\d+)$/.exec(value)?.slice(1).map(Number),
+  );
+
+  if (actual === undefined || expected === undefined) {
+    return false;
+  }
+
+  for (const [index, part] of expected.entries()) {
+    const actualPart = actual[index] ?? 0;
+
+    if (actualPart !== part) {
+      return actualPart > part;
+    }
+  }
+
+  return true;
+}
+
 /**
  * {@link DocumentMirror} is applied before calling the target, so that the
  * target uses the current document text reflection.
@@ -100,7 +137,16 @@ function mirrored<
       };
     }
 
-    const [uri, configPath, , autoDisable] = arguments_;
+    const [uri, configPath, , autoDisable, signal, rules] = arguments_;
+
+    // Don't reflect the document if the result isn't needed anymore.
+    if (signal?.aborted === true) {
+      return {
+        error: { code: ExecuteErrorCode.Canceled },
+        result: 'error',
+      };
+    }
+
     const mirror = await DocumentMirror.getInstance();
     const reflection = await mirror.reflect(
       uri,
@@ -114,7 +160,15 @@ function mirrored<
     await using disposable = reflection.value;
     const { cwd, fileUri } = disposable;
 
-    return await target.call(this, fileUri, configPath, cwd, autoDisable);
+    return await target.call(
+      this,
+      fileUri,
+      configPath,
+      cwd,
+      autoDisable,
+      signal,
+      rules,
+    );
   }
 
   return replacementMethod;
@@ -170,6 +224,10 @@ const runExecutable: TRunExecutable = async function (
     }
 
     switch (error.code) {
+      case 'ABORT_ERR':
+        code = ExecuteErrorCode.Canceled;
+        break;
+
       case 'EACCES':
         code = ExecuteErrorCode.Access;
         break;
@@ -192,6 +250,7 @@ const runExecutable: TRunExecutable = async function (
 
 enum AutofixErrorCodes {
   Canceled = 'CANCELED_BY_USER',
+  ConfigError = 'CONFIG_ERROR',
   OtherErrors = 'OTHER_ERRORS',
   ReadfileError = 'READFILE_ERROR',
   Unknown = 'UNKNOWN_EXIT_CODE',
@@ -261,6 +320,12 @@ interface IExecuteResult {
    */
   exitCode: ProtolintExitCode;
 
+  /**
+   * The format of `protolint` report in {@link stderr}.
+   * {@link ReportFormat.Json} if not set.
+   */
+  reportFormat?: ReportFormat;
+
   /**
    * The operation `stderr`.
    */
@@ -293,8 +358,6 @@ type TArgumentsOptions<T extends TRunExecutable = TRunExecutable> =
     ? [...rest: Rest]
     : never;
 
-type TCwd = Pick<SpawnOptionsWithoutStdio, 'cwd'>;
-
 type TExecuteMirroredError = IExecuteError | IReflectionError;
 
 /**
@@ -321,6 +384,16 @@ type TExecuteSignature = [
    * `-auto_disable` mode for `protolint -fix`
    */
   mode?: TAutoDisableMode,
+
+  /**
+   * Kills `protolint` process when aborted.
+   */
+  signal?: AbortSignal,
+
+  /**
+   * The fixable rules the user can select from for `protolint -fix`
+   */
+  rules?: readonly string[],
 ];
 
 type TRunExecutable<T extends typeof spawn = typeof spawn> =
@@ -332,6 +405,11 @@ type TRunExecutable<T extends typeof spawn = typeof spawn> =
       ) => Promise<TResult<IExecuteResult, IExecuteError>>
     : never;
 
+/**
+ * Options for running `protolint` process.
+ */
+type TRunOptions = Pick<SpawnOptionsWithoutStdio, 'cwd' | 'signal'>;
+
 /**
  * Represents one `protolint` executable.
  *
@@ -340,6 +418,17 @@ type TRunExecutable<T extends typeof spawn = typeof spawn> =
 class Executable implements Disposable, IAutofix, ILint {
   private static _extensionMode: ExtensionMode;
 
+  /**
+   * Fires an event with the file URIs when `protolint` is run for them via
+   * {@link lintFiles}.
+   *
+   * Please use for tests only.
+   * @eventProperty
+   */
+  get _onDidLintFiles(): EventEmitter<readonly Uri[]>['event'] | undefined {
+    return this.#lintFilesEvents?.event;
+  }
+
   /**
    * Fires an event when the {@link command} is set for the `protolint`
    * executable.
@@ -397,6 +486,7 @@ class Executable implements Disposable, IAutofix, ILint {
   #command: string;
   #commandSetEvents?: EventEmitter<IExecutableStatus>;
   #errorCode?: ExecuteErrorCode;
+  #lintFilesEvents?: EventEmitter<readonly Uri[]>;
   readonly #statusEvents = new EventEmitter<IExecutableStatus>();
   #version: string = UNKNOWN_VERSION;
 
@@ -419,6 +509,7 @@ class Executable implements Disposable, IAutofix, ILint {
     await instance.refreshStatus();
     if (this._extensionMode === ExtensionMode.Test) {
       instance.#commandSetEvents ??= new EventEmitter<IExecutableStatus>();
+      instance.#lintFilesEvents ??= new EventEmitter<readonly Uri[]>();
     }
 
     return instance;
@@ -440,7 +531,11 @@ class Executable implements Disposable, IAutofix, ILint {
     configPath?: string,
     cwd?: string,
     autoDisable?: TAutoDisableMode,
+    signal?: AbortSignal,
+    rules?: readonly string[],
   ): Promise<TResult<IAutofixResult, IAutofixError | TExecuteMirroredError>> {
+    const prompts = autoDisable === undefined;
+
     if (autoDisable === undefined) {
       const item = await window.showQuickPick<IAutofixOptions>(
         [
@@ -474,6 +569,16 @@ class Executable implements Disposable, IAutofix, ILint {
       ({ autoDisable } = item);
     }
 
+    if (prompts && rules !== undefined && rules.length > 1) {
+      const config = await this._selectRules(uri, configPath, rules);
+
+      if (config.result === 'error') {
+        return config;
+      }
+
+      configPath = config.value;
+    }
+
     using measure = new Measure('info', `Autofix ${uri.toString()}`);
     const arguments_ = ['lint', '-fix'];
 
@@ -481,8 +586,9 @@ class Executable implements Disposable, IAutofix, ILint {
       arguments_.push(`-auto_disable=${autoDisable}`);
     }
 
-    const result = await this._withConfig(uri, configPath, arguments_, {
+    const result = await this._withConfig([uri], configPath, arguments_, {
       cwd,
+      signal,
     });
 
     if (result.result === 'error') {
@@ -545,6 +651,7 @@ class Executable implements Disposable, IAutofix, ILint {
   dispose(): void {
     this.#statusEvents.dispose();
     this.#commandSetEvents?.dispose();
+    this.#lintFilesEvents?.dispose();
   }
 
   @mirrored
@@ -552,10 +659,60 @@ class Executable implements Disposable, IAutofix, ILint {
     uri: Uri,
     configPath?: string,
     cwd?: string,
+    _autoDisable?: TAutoDisableMode,
+    signal?: AbortSignal,
   ): Promise<TResult<IExecuteResult, IExecuteError | TExecuteMirroredError>> {
-    const arguments_ = ['lint', '-reporter', ReportFormat.Json];
+    const reportFormat = this._getReportFormat();
+    const result = await this._withConfig(
+      [uri],
+      configPath,
+      ['lint', '-reporter', reportFormat],
+      { cwd, signal },
+    );
+
+    return withReportFormat(result, reportFormat);
+  }
+
+  /**
+   * Runs `protolint lint` for files on disk in one process.
+   *
+   * Unlike {@link lint}, the files are not reflected via
+   * {@link DocumentMirror}, so unsaved document changes are not linted.
+   *
+   * @param uris The file URIs to lint.
+   * @param configPath `protolint` config file path.
+   * @param cwd CWD for running `protolint` process.
+   * @param signal Kills `protolint` process when aborted.
+   */
+  async lintFiles(
+    uris: readonly Uri[],
+    configPath: string | undefined,
+    cwd?: string,
+    signal?: AbortSignal,
+  ): Promise<TResult<IExecuteResult, IExecuteError>> {
+    if (this.status.errorCode !== undefined) {
+      await this.refreshStatus();
+    }
+
+    if (this.status.errorCode !== undefined) {
+      return {
+        error: { code: this.status.errorCode },
+        result: 'error',
+      };
+    }
+
+    const reportFormat = this._getReportFormat();
+
+    this.#lintFilesEvents?.fire(uris);
+
+    const result = await this._withConfig(
+      uris,
+      configPath,
+      ['lint', '-reporter', reportFormat],
+      { cwd, signal },
+    );
 
-    return this._withConfig(uri, configPath, arguments_, { cwd });
+    return withReportFormat(result, reportFormat);
   }
 
   async setCommand(value: string): Promise<IExecutableStatus> {
@@ -585,6 +742,100 @@ class Executable implements Disposable, IAutofix, ILint {
     this._setStatus(errorCode, version);
   }
 
+  /**
+   * Writes `protolint` config applying only the selected rules next to the
+   * reflected document, so it's removed together with the reflection.
+   *
+   * @param uri The reflected document URI.
+   * @param configPath The original config file path.
+   * @param rules The rule IDs to apply.
+   * @returns The derived config file path.
+   */
+  private async _deriveConfig(
+    uri: Uri,
+    configPath: string | undefined,
+    rules: readonly string[],
+  ): Promise<TResult<string, IAutofixError>> {
+    const config = await deriveRulesConfig(configPath, rules);
+
+    if (config.result === 'error') {
+      const { details } = config.error;
+
+      return {
+        error: {
+          code: AutofixErrorCodes.ConfigError,
+          ...(details instanceof Error && { error: details }),
+        },
+        result: 'error',
+      };
+    }
+
+    const derivedPath = path.join(path.dirname(uri.fsPath), CONFIG_BASENAME);
+
+    try {
+      await writeFile(derivedPath, config.value);
+    } catch (error) {
+      return {
+        error: {
+          code: AutofixErrorCodes.ConfigError,
+          ...(isNodeError(error) && { error }),
+        },
+        result: 'error',
+      };
+    }
+
+    return { result: 'success', value: derivedPath };
+  }
+
+  /**
+   * Picks the report format providing the most details the executable
+   * version supports.
+   */
+  private _getReportFormat(): ReportFormat.Json | ReportFormat.Sarif {
+    return isVersionAtLeast(this.#version, SARIF_REPORTER_VERSION)
+      ? ReportFormat.Sarif
+      : ReportFormat.Json;
+  }
+
+  /**
+   * Prompts for the rules to autofix.
+   *
+   * @param uri The reflected document URI.
+   * @param configPath The original config file path.
+   * @param rules The fixable rules to select from.
+   * @returns The config file path applying the selected rules.
+   */
+  private async _selectRules(
+    uri: Uri,
+    configPath: string | undefined,
+    rules: readonly string[],
+  ): Promise<TResult<string | undefined, IAutofixError>> {
+    const items = await window.showQuickPick(
+      rules.map((rule) => ({ label: rule, picked: true })),
+      {
+        canPickMany: true,
+        placeHolder: 'Select the rules to autofix',
+        title: 'protolint autofix',
+      },
+    );
+
+    if (items === undefined || items.length === 0) {
+      return { error: { code: AutofixErrorCodes.Canceled }, result: 'error' };
+    }
+
+    // Other fixable rules may correct the lines without problems shown, so
+    // the config is narrowed only for a partial selection.
+    if (items.length === rules.length) {
+      return { result: 'success', value: configPath };
+    }
+
+    return this._deriveConfig(
+      uri,
+      configPath,
+      items.map(({ label }) => label),
+    );
+  }
+
   private _setStatus(
     errorCode?: ExecuteErrorCode,
     version: string = UNKNOWN_VERSION,
@@ -597,11 +848,11 @@ class Executable implements Disposable, IAutofix, ILint {
   }
 
   private async _withConfig(
-    { fsPath, scheme }: Uri,
+    uris: readonly Uri[],
     configPath: string | undefined,
     ...arguments_: Parameters<typeof this._withStatus>
   ): ReturnType<typeof this._withStatus> {
-    if (scheme !== 'file') {
+    if (uris.some(({ scheme }) => scheme !== 'file')) {
       return { error: { code: ExecuteErrorCode.Scheme }, result: 'error' };
     }
 
@@ -611,7 +862,7 @@ class Executable implements Disposable, IAutofix, ILint {
       spawnArguments.push(`-config_path=${configPath}`);
     }
 
-    spawnArguments.push(fsPath);
+    spawnArguments.push(...uris.map(({ fsPath }) => fsPath));
 
     return this._withStatus(...arguments_);
   }
@@ -631,10 +882,10 @@ class Executable implements Disposable, IAutofix, ILint {
 
   private async _withOptions(
     arguments_: TArguments,
-    cwd?: TCwd,
+    options?: TRunOptions,
   ): Promise<Awaited<ReturnType<typeof this._withExecutable>>> {
     return this._withExecutable(arguments_, {
-      ...cwd,
+      ...options,
       timeout: PROTOLINT_RUN_TIMEOUT,
     });
   }
@@ -644,7 +895,11 @@ class Executable implements Disposable, IAutofix, ILint {
   ): Promise<Awaited<ReturnType<typeof this._withOptions>>> {
     const result = await this._withOptions(...arguments_);
 
-    if (result.result === 'error') {
+    // Canceling doesn't tell anything about the executable.
+    if (
+      result.result === 'error' &&
+      result.error.code !== ExecuteErrorCode.Canceled
+    ) {
       this._setStatus(result.error.code);
     }
 
@@ -656,4 +911,17 @@ class Executable implements Disposable, IAutofix, ILint {
   }
 }
 
-export { Executable, ExecuteErrorCode, ProtolintExitCode };
+/**
+ * Marks the successful `protolint lint` outcome with the report format.
+ */
+function withReportFormat<E>(
+  result: TResult<IExecuteResult, E>,
+  reportFormat: ReportFormat,
+): TResult<IExecuteResult, E> {
+  return result.result === 'success'
+    ? { result: 'success', value: { ...result.value, reportFormat } }
+    : result;
+}
+
+export type { IAutofixResult, IExecuteResult };
+export { Executable, ExecuteErrorCode, ProtolintExitCode, ReportFormat };
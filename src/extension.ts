@@ -15,6 +15,7 @@ import type { ExtensionContext, LanguageStatusItem } from 'vscode';
 
 interface ITesting {
   readonly executableCache: Readonly<Omit<ExecutableCache, 'dispose'>>;
+  readonly fixer: Pick<Fixer, 'autofixFiles'>;
   readonly languageStatus: Readonly<Omit<LanguageStatusItem, 'dispose'>>;
 }
 
@@ -25,7 +26,7 @@ async function activate(
 
   Executable.setMode(context.extensionMode);
 
-  await Fixer.initialize(context);
+  const fixer = await Fixer.initialize(context);
 
   await Diagnostics.initialize(context);
 
@@ -40,6 +41,7 @@ async function activate(
   if (context.extensionMode === ExtensionMode.Test) {
     return {
       executableCache: await ExecutableCache.getInstance(context),
+      fixer,
       languageStatus,
     };
   }
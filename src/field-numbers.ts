@@ -0,0 +1,309 @@
+import { Range, TextEdit } from 'vscode';
+
+import { TokenKind, TokenMap } from './protobuf-parser.js';
+import { parseStatements } from './protobuf-statements.js';
+import { tokenize } from './protobuf-symbols.js';
+
+import type { TextDocument } from 'vscode';
+
+import type { IStatement } from './protobuf-statements.js';
+
+/**
+ * The largest field number.
+ *
+ * {@link https://protobuf.dev/programming-guides/proto3/#assigning}
+ */
+const MAX_FIELD_NUMBER = 536_870_911;
+
+/**
+ * The field numbers reserved for the protobuf implementation.
+ */
+const IMPLEMENTATION_RESERVED: [number, number] = [19_000, 19_999];
+
+/**
+ * A field declaration of a message.
+ */
+interface IMessageField {
+  number: number;
+
+  /**
+   * The field number range.
+   */
+  range: Range;
+  statement: IStatement;
+}
+
+/**
+ * The statement-level view of a message body.
+ */
+interface IMessageFields {
+  /**
+   * The fields declared in the message body, excluding the `oneof` fields.
+   */
+  fields: IMessageField[];
+
+  /**
+   * The fields declared in the `oneof` blocks of the message.
+   */
+  oneofFields: IMessageField[];
+
+  /**
+   * The inclusive ranges of the reserved and the extension field numbers.
+   */
+  reserved: [number, number][];
+}
+
+/**
+ * Finds the innermost message containing the offset. The `oneof` blocks are
+ * considered a part of their message.
+ *
+ * @param document The protobuf document.
+ * @param offset The document offset, e.g. of a field declaration.
+ * @returns The message statement, if any.
+ */
+function enclosingMessage(
+  document: TextDocument,
+  offset: number,
+): IStatement | undefined {
+  const text = document.getText();
+  let message: IStatement | undefined;
+  let statements = parseStatements(text);
+
+  for (;;) {
+    const block = statements.find(
+      ({ bodyStart, statementEnd }) =>
+        bodyStart !== undefined && bodyStart <= offset && offset < statementEnd,
+    );
+
+    if (block?.bodyStart === undefined) {
+      return message;
+    }
+
+    if (startsWith(text, block, 'message')) {
+      message = block;
+    } else if (!startsWith(text, block, 'oneof')) {
+      message = undefined;
+    }
+
+    statements = parseStatements(text, block.bodyStart, block.statementEnd - 1);
+  }
+}
+
+function isReserved(reserved: [number, number][], number: number): boolean {
+  return reserved.some(([from, to]) => from <= number && number <= to);
+}
+
+/**
+ * Finds the field declared by the statement.
+ */
+function messageField(
+  document: TextDocument,
+  statement: IStatement,
+): IMessageField | undefined {
+  const { character, line } = document.positionAt(statement.start);
+  const result = new TokenMap(document).parseFragment(
+    TokenKind.FieldNumber,
+    line,
+    character,
+  );
+
+  if (
+    result.result === 'error' ||
+    document.offsetAt(result.value.start) >= statement.statementEnd
+  ) {
+    return;
+  }
+
+  return {
+    number: Number(document.getText(result.value)),
+    range: result.value,
+    statement,
+  };
+}
+
+/**
+ * Collects the fields and the reserved and extension field numbers of the
+ * message containing the offset.
+ *
+ * @param document The protobuf document.
+ * @param offset The document offset, e.g. of a field declaration.
+ */
+function messageFields(
+  document: TextDocument,
+  offset: number,
+): IMessageFields | undefined {
+  const message = enclosingMessage(document, offset);
+
+  if (message?.bodyStart === undefined) {
+    return;
+  }
+
+  const text = document.getText();
+  const value: IMessageFields = { fields: [], oneofFields: [], reserved: [] };
+
+  for (const statement of parseStatements(
+    text,
+    message.bodyStart,
+    message.statementEnd - 1,
+  )) {
+    if (
+      startsWith(text, statement, 'reserved') ||
+      startsWith(text, statement, 'extensions')
+    ) {
+      value.reserved.push(...reservedRanges(text, statement));
+    } else if (
+      startsWith(text, statement, 'oneof') &&
+      statement.bodyStart !== undefined
+    ) {
+      value.oneofFields.push(
+        ...parseStatements(
+          text,
+          statement.bodyStart,
+          statement.statementEnd - 1,
+        ).flatMap((item) => messageField(document, item) ?? []),
+      );
+    } else {
+      const field = messageField(document, statement);
+
+      if (field !== undefined) {
+        value.fields.push(field);
+      }
+    }
+  }
+
+  return value;
+}
+
+/**
+ * Computes the edits renumbering the fields of the message from 1 in the
+ * declaration order, including the `oneof` fields. The reserved field numbers,
+ * the extension ranges and the numbers reserved for the protobuf
+ * implementation are skipped.
+ *
+ * Renumbering breaks the compatibility with the data serialized using the
+ * previous numbers.
+ *
+ * @param document The protobuf document.
+ * @param offset The offset of any field declaration of the message.
+ * @returns The edits replacing the field numbers, if any.
+ */
+function renumberFieldsEdits(
+  document: TextDocument,
+  offset: number,
+): TextEdit[] {
+  const message = messageFields(document, offset);
+
+  if (message === undefined) {
+    return [];
+  }
+
+  const reserved = [...message.reserved, IMPLEMENTATION_RESERVED];
+  const edits: TextEdit[] = [];
+  let number = 0;
+
+  for (const field of [...message.fields, ...message.oneofFields].toSorted(
+    (a, b) => a.statement.start - b.statement.start,
+  )) {
+    do {
+      number++;
+    } while (isReserved(reserved, number));
+
+    if (field.number !== number) {
+      edits.push(new TextEdit(field.range, number.toString()));
+    }
+  }
+
+  return edits;
+}
+
+/**
+ * Computes the edits moving the field declarations of the message into the
+ * ascending field number order. Each field is moved with its comments, while
+ * the other statements, e.g. nested messages and `oneof` blocks, stay in
+ * place.
+ *
+ * @param document The protobuf document.
+ * @param offset The offset of any field declaration of the message.
+ * @returns The edits replacing the misplaced fields, if any.
+ */
+function reorderFieldsEdits(
+  document: TextDocument,
+  offset: number,
+): TextEdit[] {
+  const fields = messageFields(document, offset)?.fields ?? [];
+  const ordered = fields.toSorted((a, b) => a.number - b.number);
+  const edits: TextEdit[] = [];
+
+  for (const [index, { statement }] of fields.entries()) {
+    const { end, leadingStart } = ordered[index]?.statement ?? statement;
+
+    if (leadingStart === statement.leadingStart) {
+      continue;
+    }
+
+    edits.push(
+      new TextEdit(
+        new Range(
+          document.positionAt(statement.leadingStart),
+          document.positionAt(statement.end),
+        ),
+        document.getText(
+          new Range(
+            document.positionAt(leadingStart),
+            document.positionAt(end),
+          ),
+        ),
+      ),
+    );
+  }
+
+  return edits;
+}
+
+/**
+ * Parses the field number ranges of the `reserved` or `extensions` statement,
+ * which may span several lines. The reserved field names and the extension
+ * range options are skipped.
+ */
+function reservedRanges(
+  text: string,
+  { start, statementEnd }: IStatement,
+): [number, number][] {
+  const tokens = tokenize(text.slice(start, statementEnd)).map(
+    (token) => token.text,
+  );
+  const ranges: [number, number][] = [];
+
+  for (const [index, token] of tokens.entries()) {
+    if (token === '[') {
+      break;
+    }
+
+    if (!/^\d/.test(token) || tokens[index - 1] === 'to') {
+      continue;
+    }
+
+    const to = tokens[index + 1] === 'to' ? tokens[index + 2] : token;
+
+    ranges.push([Number(token), to === 'max' ? MAX_FIELD_NUMBER : Number(to)]);
+  }
+
+  return ranges;
+}
+
+/**
+ * Tells whether the statement starts with the keyword.
+ */
+function startsWith(
+  text: string,
+  { start }: IStatement,
+  keyword: string,
+): boolean {
+  const pattern = new RegExp(String.raw`${keyword}\b`, 'y');
+
+  pattern.lastIndex = start;
+
+  return pattern.test(text);
+}
+
+export { renumberFieldsEdits, reorderFieldsEdits };
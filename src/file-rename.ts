@@ -0,0 +1,90 @@
+import path from 'node:path';
+
+import { CodeAction, Range, WorkspaceEdit } from 'vscode';
+
+import { loadProtobufFiles, resolveImport } from './protobuf-files.js';
+
+import type {
+  CancellationToken,
+  CodeActionKind,
+  TextDocument,
+  Uri,
+} from 'vscode';
+
+/**
+ * A protobuf file rename requested by a quick fix.
+ */
+interface IFileRename {
+  /**
+   * The document to rename.
+   */
+  document: TextDocument;
+
+  /**
+   * The new file URI in the same directory.
+   */
+  uri: Uri;
+}
+
+/**
+ * A quick fix renaming a protobuf file and updating the imports of it.
+ *
+ * The action has no edit until it's resolved, as searching for the imports
+ * requires reading all protobuf files of the workspace.
+ */
+class FileRenameAction extends CodeAction {
+  public readonly rename: IFileRename;
+
+  constructor(title: string, kind: CodeActionKind, rename: IFileRename) {
+    super(title, kind);
+
+    this.rename = rename;
+  }
+}
+
+/**
+ * Computes the edit renaming the file and replacing the file name in the
+ * `import` statements referring to it in the workspace protobuf files.
+ *
+ * @param rename The requested rename.
+ * @param token The cancellation token.
+ */
+async function fileRenameEdit(
+  { document, uri }: IFileRename,
+  token: CancellationToken,
+): Promise<WorkspaceEdit> {
+  const edit = new WorkspaceEdit();
+  const basename = path.posix.basename(uri.path);
+
+  edit.renameFile(document.uri, uri, { overwrite: false });
+
+  const files = await loadProtobufFiles(document, token);
+
+  for (const file of files) {
+    // The file can't import itself, and its text edits would have to follow
+    // the rename.
+    if (file.document === document) {
+      continue;
+    }
+
+    for (const item of file.symbols.imports) {
+      if (resolveImport(file, item, files)?.document !== document) {
+        continue;
+      }
+
+      const directory = path.posix.dirname(item.path);
+      const start = file.document.positionAt(item.start + 1);
+
+      edit.replace(
+        file.document.uri,
+        new Range(start, start.translate(0, item.path.length)),
+        directory === '.' ? basename : `${directory}/${basename}`,
+      );
+    }
+  }
+
+  return edit;
+}
+
+export type { IFileRename };
+export { FileRenameAction, fileRenameEdit };
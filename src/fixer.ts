@@ -1,34 +1,101 @@
+import path from 'node:path';
+
 import {
+  CodeAction,
   CodeActionKind,
   commands,
+  FileType,
   languages,
-  Range,
+  ProgressLocation,
+  RelativePattern,
   window,
   workspace,
   WorkspaceEdit,
 } from 'vscode';
 
+import { configActions, updateConfig } from './config-editor.js';
 import { ExecutableCache } from './config.js';
 import {
   AUTO_DISABLE_MODES,
+  COMMAND_AUTOFIX_FILES,
+  COMMAND_UPDATE_CONFIG,
+  CONFIG_SECTION,
+  DIAGNOSTIC_SOURCE,
   EDITOR_COMMAND_AUTOFIX,
+  EDITOR_COMMAND_AUTOFIX_PREVIEW,
   EDITOR_COMMAND_FIX_INDENTS,
+  PROTOBUF_EXTENSION,
+  PROTOBUF_GLOB,
   PROTOBUF_SELECTOR,
 } from './constants.js';
-import { fixIndents, getConfigPath } from './helpers.js';
+import { disableActions } from './disable-directive.js';
+import { ExecuteErrorCode } from './executable.js';
+import { FileRenameAction, fileRenameEdit } from './file-rename.js';
+import { fixIndents, getConfigPath, registerCommand } from './helpers.js';
+import { organizeImportsEdits } from './import-sorter.js';
 import { logger } from './logger.js';
-import { codeActions, ProtolintDiagnostic } from './rule-mapper.js';
+import { Measure } from './performance.js';
+import {
+  codeActions,
+  FIXABLE_RULES,
+  fixAllActions,
+  ProtolintDiagnostic,
+} from './rule-mapper.js';
+import { diffEdits } from './text-diff.js';
+import { TextSnapshot } from './text-snapshot.js';
+import { TypeRenameAction, typeRenameEdit } from './type-rename.js';
+import {
+  unusedDirectiveActions,
+  UnusedDirectiveDiagnostic,
+} from './unused-directives.js';
 
 import type {
-  CodeAction,
+  CancellationToken,
   CodeActionContext,
   CodeActionProvider,
   ExtensionContext,
+  Progress,
+  Range,
   Selection,
   TextDocument,
+  TextEdit,
+  Uri,
 } from 'vscode';
 
 import type { TAutoDisableMode } from './constants.js';
+import type { IAutofixResult } from './executable.js';
+
+/**
+ * Autofix auto-disable mode configuration key in VS Code Settings.
+ */
+const CONFIG_AUTO_DISABLE_KEY = 'autoDisable';
+
+/**
+ * The label grouping the autofix changes in the refactor preview.
+ */
+const AUTOFIX_PREVIEW_LABEL = 'protolint autofix';
+
+const PROTOLINT_FIX_ALL = CodeActionKind.SourceFixAll.append('protolint');
+const PROTOLINT_ORGANIZE_IMPORTS =
+  CodeActionKind.SourceOrganizeImports.append('protolint');
+
+const AUTOFIX_FILES_APPLY = 'Apply';
+const AUTOFIX_FILES_PREVIEW = 'Preview';
+
+/**
+ * The autofix changes of one document.
+ */
+interface IDocumentAutofix {
+  document: TextDocument;
+  edits: TextEdit[];
+
+  /**
+   * The document version the edits are computed for.
+   */
+  version: number;
+}
+
+type TProgress = Progress<{ increment?: number; message?: string }>;
 
 class ProtolintActionProvider implements CodeActionProvider {
   public static readonly providedCodeActionKinds = [CodeActionKind.QuickFix];
@@ -51,8 +118,85 @@ class ProtolintActionProvider implements CodeActionProvider {
       actions.push(...codeActions(document, diagnostic));
     }
 
+    // The rule-specific fixes go first, as they resolve the problem.
+    for (const diagnostic of actionableDiagnostics) {
+      actions.push(
+        ...disableActions(document, diagnostic),
+        ...configActions(document, diagnostic),
+      );
+    }
+
+    const unusedDirectives = diagnostics
+      .filter((diagnostic) => diagnostic instanceof UnusedDirectiveDiagnostic)
+      .filter((diagnostic) => diagnostic.range.contains(range));
+
+    for (const diagnostic of unusedDirectives) {
+      actions.push(...unusedDirectiveActions(document, diagnostic));
+    }
+
+    const rules = new Set(actionableDiagnostics.map(({ error }) => error.rule));
+    const documentDiagnostics = languages
+      .getDiagnostics(document.uri)
+      .filter((diagnostic) => diagnostic instanceof ProtolintDiagnostic);
+
+    for (const rule of rules) {
+      for (const action of fixAllActions(document, rule, documentDiagnostics)) {
+        // Fixing all problems of the rule is the preferred choice only if
+        // there is no other rule to choose from.
+        action.isPreferred = rules.size === 1;
+        actions.push(action);
+      }
+    }
+
     return actions;
   }
+
+  async resolveCodeAction(
+    action: CodeAction,
+    token: CancellationToken,
+  ): Promise<CodeAction> {
+    if (action instanceof FileRenameAction) {
+      action.edit = await fileRenameEdit(action.rename, token);
+    } else if (action instanceof TypeRenameAction) {
+      action.edit = await typeRenameEdit(action.renames, token);
+    }
+
+    return action;
+  }
+}
+
+class ProtolintOrganizeImportsProvider implements CodeActionProvider {
+  public static readonly providedCodeActionKinds = [PROTOLINT_ORGANIZE_IMPORTS];
+
+  /**
+   * Sorts the imports the way `IMPORTS_SORTED` rule requires. `protolint`
+   * isn't run, so it's fast enough for `editor.codeActionsOnSave`.
+   */
+  provideCodeActions(
+    document: TextDocument,
+    _range: Range | Selection,
+    { only }: CodeActionContext,
+  ): CodeAction[] {
+    if (only && !only.contains(PROTOLINT_ORGANIZE_IMPORTS)) {
+      return [];
+    }
+
+    const edits = organizeImportsEdits(document);
+
+    if (edits.length === 0) {
+      return [];
+    }
+
+    const action = new CodeAction(
+      'Organize imports',
+      PROTOLINT_ORGANIZE_IMPORTS,
+    );
+
+    action.edit = new WorkspaceEdit();
+    action.edit.set(document.uri, edits);
+
+    return [action];
+  }
 }
 
 /**
@@ -73,10 +217,11 @@ class Fixer {
    * Instantiates code fixing for `protolint`.
    *
    * @param context {@link ExtensionContext} for this extension.
+   * @returns The fixer instance.
    */
-  public static async initialize(context: ExtensionContext): Promise<void> {
+  public static async initialize(context: ExtensionContext): Promise<Fixer> {
     if (this._instance) {
-      return;
+      return this._instance;
     }
 
     const fixer = new Fixer(await ExecutableCache.getInstance(context));
@@ -102,6 +247,35 @@ class Fixer {
         },
       ),
 
+      languages.registerCodeActionsProvider(
+        PROTOBUF_SELECTOR,
+        new ProtolintFixAllProvider(fixer),
+        {
+          providedCodeActionKinds:
+            ProtolintFixAllProvider.providedCodeActionKinds,
+        },
+      ),
+
+      languages.registerCodeActionsProvider(
+        PROTOBUF_SELECTOR,
+        new ProtolintOrganizeImportsProvider(),
+        {
+          providedCodeActionKinds:
+            ProtolintOrganizeImportsProvider.providedCodeActionKinds,
+        },
+      ),
+
+      registerCommand(COMMAND_UPDATE_CONFIG, updateConfig),
+
+      registerCommand(COMMAND_AUTOFIX_FILES, async (uri, uris) => {
+        const targets =
+          uris ?? (uri === undefined ? await selectAutofixTargets() : [uri]);
+
+        if (targets !== undefined && targets.length > 0) {
+          await fixer.applyFiles(targets);
+        }
+      }),
+
       commands.registerTextEditorCommand(
         EDITOR_COMMAND_AUTOFIX,
         (editor, _edit, ...arguments_) => {
@@ -110,24 +284,175 @@ class Fixer {
           void fixer.apply(editor.document, autoDisable);
         },
       ),
+
+      commands.registerTextEditorCommand(
+        EDITOR_COMMAND_AUTOFIX_PREVIEW,
+        (editor, _edit, ...arguments_) => {
+          const autoDisable = arguments_.find((item) => isAutoDisable(item));
+
+          void fixer.apply(editor.document, autoDisable, true);
+        },
+      ),
     );
+
+    return fixer;
   }
 
+  /**
+   * Autofixes the document via `protolint`.
+   *
+   * @param document The document to autofix.
+   * @param autoDisable `-auto_disable` mode. If not set, the user is prompted
+   * for it.
+   * @param preview If `true`, the changes are shown in the refactor preview
+   * to be applied or discarded by the user.
+   */
   async apply(
     document: TextDocument,
     autoDisable?: TAutoDisableMode,
+    preview = false,
   ): Promise<void> {
     if (!languages.match(PROTOBUF_SELECTOR, document)) {
       return;
     }
 
+    const { uri, version } = document;
+    const autofix = await this.autofix(
+      document,
+      autoDisable,
+      undefined,
+      getFixableRules(document),
+    );
+
+    if (autofix === undefined) {
+      return;
+    }
+
+    const { fixedText } = autofix;
+
+    if (fixedText === undefined) {
+      void window.showInformationMessage('Protolint: no errors to autofix');
+
+      return;
+    }
+
+    // The autofix is based on the outdated text, so it can't be applied.
+    // eslint-disable-next-line unicorn/consistent-destructuring
+    if (document.version !== version) {
+      logger.trace(
+        `[Fixer] Discarding the autofix for the changed document (version: ${version.toString()}):`,
+        uri.toString(),
+      );
+      void window.showWarningMessage(
+        'Protolint: the document was changed while autofixing. Please run the autofix again.',
+      );
+
+      return;
+    }
+
+    await applyAutofix(
+      autofixEdit(
+        [{ document, edits: diffEdits(document, fixedText), version }],
+        preview,
+      ),
+      uri.toString(),
+      preview,
+    );
+  }
+
+  /**
+   * Autofixes the protobuf files, including the ones in the folders, showing
+   * the progress notification. The documents opened in VS Code are autofixed
+   * with their unsaved changes.
+   *
+   * The changes of all files are gathered into one edit, which the user can
+   * apply at once or review in the refactor preview.
+   *
+   * @param uris The files and folders to autofix.
+   */
+  async applyFiles(uris: readonly Uri[]): Promise<void> {
+    const autofixes = await window.withProgress(
+      {
+        cancellable: true,
+        location: ProgressLocation.Notification,
+        title: 'protolint autofix',
+      },
+      async (progress, token) => this.autofixFiles(uris, progress, token),
+    );
+
+    if (autofixes === undefined) {
+      return;
+    }
+
+    if (autofixes.length === 0) {
+      void window.showInformationMessage('Protolint: no errors to autofix');
+
+      return;
+    }
+
+    const selection = await window.showInformationMessage(
+      autofixSummary(autofixes),
+      AUTOFIX_FILES_APPLY,
+      AUTOFIX_FILES_PREVIEW,
+    );
+
+    if (selection === undefined) {
+      return;
+    }
+
+    const preview = selection === AUTOFIX_FILES_PREVIEW;
+    const current: IDocumentAutofix[] = [];
+
+    for (const autofix of autofixes) {
+      if (!(await isStale(autofix))) {
+        current.push(autofix);
+      }
+    }
+
+    if (current.length < autofixes.length) {
+      void window.showWarningMessage(
+        'Protolint: some documents were changed while autofixing. Their autofix is discarded.',
+      );
+    }
+
+    await applyAutofix(
+      autofixEdit(current, preview),
+      `${current.length.toString()} file(s)`,
+      preview,
+    );
+  }
+
+  /**
+   * Runs `protolint` autofix for the document text.
+   *
+   * @param document The document to autofix.
+   * @param autoDisable `-auto_disable` mode. If not set, the user is prompted
+   * for it.
+   * @param signal Stops the autofix when aborted.
+   * @param rules The fixable rules the user can select from when prompted.
+   * @returns The autofix result, or `undefined` if the autofix failed or was
+   * canceled.
+   */
+  async autofix(
+    document: TextDocument,
+    autoDisable?: TAutoDisableMode,
+    signal?: AbortSignal,
+    rules?: readonly string[],
+  ): Promise<IAutofixResult | undefined> {
     let autofix;
-    const { lineCount, uri } = document;
+    const { uri } = document;
 
     try {
       autofix = await this.#executableCache
         .getExecutable(uri)
-        .autofix(uri, await getConfigPath(uri), undefined, autoDisable);
+        .autofix(
+          uri,
+          await getConfigPath(uri),
+          undefined,
+          autoDisable,
+          signal,
+          rules,
+        );
     } catch (error) {
       logger.error(
         `[Fixer] Failed autofixing ${uri.toString()} via temp file. Details:`,
@@ -138,44 +463,331 @@ class Fixer {
     }
 
     if (autofix.result === 'error') {
-      logger.error(`[Fixer] Failed autofixing ${uri.toString()}:`, autofix);
+      if (autofix.error.code === ExecuteErrorCode.Canceled) {
+        logger.trace(`[Fixer] Autofix canceled:`, uri.toString());
+      } else {
+        logger.error(`[Fixer] Failed autofixing ${uri.toString()}:`, autofix);
+      }
 
       return;
     }
 
-    const {
-      value: { fixedText },
-    } = autofix;
+    return autofix.value;
+  }
 
-    if (fixedText === undefined) {
-      void window.showInformationMessage('Protolint: no errors to autofix');
+  /**
+   * Autofixes the protobuf files one by one. The changes aren't applied.
+   *
+   * @param uris The files and folders to autofix.
+   * @param progress Reports the autofixed file count.
+   * @param token Stops the autofix when canceled.
+   * @returns The changes of the autofixed documents, or `undefined` if
+   * canceled.
+   */
+  async autofixFiles(
+    uris: readonly Uri[],
+    progress: TProgress,
+    token: CancellationToken,
+  ): Promise<IDocumentAutofix[] | undefined> {
+    progress.report({ message: 'Searching for protobuf files' });
+
+    const files = await findProtobufFiles(uris, token);
+    const total = files.length.toString();
+    const controller = new AbortController();
+    const cancellation = token.onCancellationRequested(() => {
+      controller.abort();
+    });
+    const autofixes: IDocumentAutofix[] = [];
+
+    using measure = new Measure('info', `Autofix ${total} file(s)`);
+
+    try {
+      for (const [index, uri] of files.entries()) {
+        if (token.isCancellationRequested) {
+          break;
+        }
+
+        progress.report({
+          increment: 100 / files.length,
+          message: `Autofixing ${index.toString()}/${total} files`,
+        });
+
+        const autofix = await this._autofixFile(uri, controller.signal);
+
+        if (autofix !== undefined) {
+          autofixes.push(autofix);
+        }
+      }
+    } finally {
+      cancellation.dispose();
+    }
+
+    if (token.isCancellationRequested) {
+      logger.info(`[Fixer] Autofix of ${total} file(s) canceled`);
 
       return;
     }
 
-    const editText = new WorkspaceEdit();
-    const range = new Range(
-      document.lineAt(0).range.start,
-      document.lineAt(lineCount - 1).range.end,
-    );
+    measure.end();
 
-    editText.replace(uri, range, fixedText);
+    return autofixes;
+  }
 
-    try {
-      const applied = await workspace.applyEdit(editText);
+  /**
+   * Autofixes one protobuf file. The document opened in VS Code is autofixed
+   * with its unsaved changes, if any. Otherwise, the file is read from disk
+   * without opening it.
+   *
+   * @returns The document changes, or `undefined` if there are none.
+   */
+  private async _autofixFile(
+    uri: Uri,
+    signal: AbortSignal,
+  ): Promise<IDocumentAutofix | undefined> {
+    let document: TextDocument | undefined = workspace.textDocuments.find(
+      (candidate) => candidate.uri.toString() === uri.toString(),
+    );
 
-      if (!applied) {
-        logger.error(
-          `[Fixer] Failed applying the autofixed text to ${uri.toString()}`,
-        );
-      }
+    try {
+      document ??= await TextSnapshot.fromFile(uri);
     } catch (error) {
       logger.error(
-        `[Fixer] Applying the edit with an autofix to ${uri.toString()} is rejected:`,
+        `[Fixer] Failed reading ${uri.toString()} for autofix. Details:`,
         error,
       );
+
+      return;
+    }
+
+    if (!languages.match(PROTOBUF_SELECTOR, document)) {
+      return;
+    }
+
+    const { version } = document;
+    const autofix = await this.autofix(
+      document,
+      getAutoDisable(document),
+      signal,
+    );
+
+    // eslint-disable-next-line unicorn/consistent-destructuring
+    if (autofix?.fixedText === undefined || document.version !== version) {
+      return;
+    }
+
+    const edits = diffEdits(document, autofix.fixedText);
+
+    return edits.length > 0 ? { document, edits, version } : undefined;
+  }
+}
+
+class ProtolintFixAllProvider implements CodeActionProvider {
+  public static readonly providedCodeActionKinds = [PROTOLINT_FIX_ALL];
+
+  readonly #fixer: Fixer;
+
+  constructor(fixer: Fixer) {
+    this.#fixer = fixer;
+  }
+
+  /**
+   * Autofixes the document without any prompts, using
+   * `protolint.autoDisable` setting.
+   *
+   * `protolint` is stopped when the save participant runs out of time.
+   */
+  async provideCodeActions(
+    document: TextDocument,
+    _range: Range | Selection,
+    { only }: CodeActionContext,
+    token: CancellationToken,
+  ): Promise<CodeAction[]> {
+    if (only && !only.contains(PROTOLINT_FIX_ALL)) {
+      return [];
+    }
+
+    const controller = new AbortController();
+    const cancellation = token.onCancellationRequested(() => {
+      controller.abort();
+    });
+    const { uri, version } = document;
+    let autofix;
+
+    try {
+      autofix = await this.#fixer.autofix(
+        document,
+        getAutoDisable(document),
+        controller.signal,
+      );
+    } finally {
+      cancellation.dispose();
+    }
+
+    // eslint-disable-next-line unicorn/consistent-destructuring
+    if (autofix?.fixedText === undefined || document.version !== version) {
+      return [];
+    }
+
+    const action = new CodeAction(
+      'Fix all protolint problems',
+      PROTOLINT_FIX_ALL,
+    );
+
+    action.edit = new WorkspaceEdit();
+    action.edit.set(uri, diffEdits(document, autofix.fixedText));
+
+    return [action];
+  }
+}
+
+/**
+ * Applies the autofix edit.
+ *
+ * @param edit The autofix changes.
+ * @param target The autofixed documents description for logging.
+ * @param preview If `true`, the changes are shown in the refactor preview.
+ */
+async function applyAutofix(
+  edit: WorkspaceEdit,
+  target: string,
+  preview: boolean,
+): Promise<void> {
+  try {
+    const applied = await workspace.applyEdit(edit);
+
+    // The preview may be discarded by the user.
+    if (!applied && preview) {
+      logger.trace(`[Fixer] The autofix preview is discarded:`, target);
+    } else if (!applied) {
+      logger.error(`[Fixer] Failed applying the autofixed text to ${target}`);
+    }
+  } catch (error) {
+    logger.error(
+      `[Fixer] Applying the edit with an autofix to ${target} is rejected:`,
+      error,
+    );
+  }
+}
+
+/**
+ * Creates the edit with the autofix changes of the documents.
+ *
+ * @param autofixes The autofix changes.
+ * @param preview If `true`, the changes need the user confirmation in the
+ * refactor preview.
+ */
+function autofixEdit(
+  autofixes: readonly IDocumentAutofix[],
+  preview: boolean,
+): WorkspaceEdit {
+  const edit = new WorkspaceEdit();
+  const metadata = preview
+    ? { label: AUTOFIX_PREVIEW_LABEL, needsConfirmation: true }
+    : undefined;
+
+  for (const { document, edits } of autofixes) {
+    for (const { newText, range } of edits) {
+      edit.replace(document.uri, range, newText, metadata);
+    }
+  }
+
+  return edit;
+}
+
+/**
+ * Describes the autofix changes of the files for the user.
+ */
+function autofixSummary(autofixes: readonly IDocumentAutofix[]): string {
+  const changes = autofixes.reduce(
+    (count, { edits }) => count + edits.length,
+    0,
+  );
+
+  return `Protolint: autofix changes ${changes.toString()} place(s) in ${autofixes.length.toString()} file(s).`;
+}
+
+/**
+ * Finds the protobuf files to autofix.
+ *
+ * @param uris The files and folders. The folders are searched recursively.
+ * The files without `.proto` extension are skipped.
+ * @param token Stops searching when canceled.
+ * @returns The unique file URIs.
+ */
+async function findProtobufFiles(
+  uris: readonly Uri[],
+  token: CancellationToken,
+): Promise<Uri[]> {
+  const files = new Map<string, Uri>();
+
+  for (const uri of uris) {
+    let stat;
+
+    try {
+      stat = await workspace.fs.stat(uri);
+    } catch (error) {
+      logger.warn(`[Fixer] Failed reading ${uri.toString()}. Details:`, error);
+
+      continue;
+    }
+
+    // The type is a bit mask, e.g. for a symbolic link to a directory.
+    const found =
+      (stat.type & FileType.Directory) === 0
+        ? [uri].filter(
+            (file) => path.posix.extname(file.path) === PROTOBUF_EXTENSION,
+          )
+        : await workspace.findFiles(
+            new RelativePattern(uri, PROTOBUF_GLOB),
+            undefined,
+            undefined,
+            token,
+          );
+
+    for (const file of found) {
+      files.set(file.toString(), file);
+    }
+  }
+
+  return [...files.values()];
+}
+
+/**
+ * Gets `-auto_disable` mode for autofixing the document without prompts from
+ * VS Code Settings.
+ *
+ * @param document The document to get the setting for.
+ */
+function getAutoDisable(document: TextDocument): TAutoDisableMode {
+  const mode = workspace
+    .getConfiguration(CONFIG_SECTION, document)
+    .get<string>(CONFIG_AUTO_DISABLE_KEY);
+
+  return isAutoDisable(mode) ? mode : 'none';
+}
+
+/**
+ * Gets the fixable rules with `protolint` problems reported for the document.
+ *
+ * @param document The document to autofix.
+ * @returns The sorted rule IDs.
+ */
+function getFixableRules({ uri }: TextDocument): string[] {
+  const rules = new Set<string>();
+
+  for (const { code, source } of languages.getDiagnostics(uri)) {
+    const rule = typeof code === 'object' ? code.value : code;
+
+    if (
+      source === DIAGNOSTIC_SOURCE &&
+      typeof rule === 'string' &&
+      FIXABLE_RULES.has(rule)
+    ) {
+      rules.add(rule);
     }
   }
+
+  return [...rules].toSorted((a, b) => a.localeCompare(b));
 }
 
 function isAutoDisable(argument: unknown): argument is TAutoDisableMode {
@@ -185,4 +797,55 @@ function isAutoDisable(argument: unknown): argument is TAutoDisableMode {
   );
 }
 
-export { Fixer };
+/**
+ * Checks if the document has been changed since it was autofixed, so that the
+ * autofix can't be applied anymore.
+ *
+ * A file autofixed without opening it is read from disk again, because its
+ * {@link TextSnapshot} version never changes. It's also stale if it has been
+ * opened with unsaved changes.
+ */
+async function isStale({
+  document,
+  version,
+}: IDocumentAutofix): Promise<boolean> {
+  if (!(document instanceof TextSnapshot)) {
+    return document.version !== version;
+  }
+
+  const target = document.uri.toString();
+  const opened = workspace.textDocuments.find(
+    ({ uri }) => uri.toString() === target,
+  );
+
+  return opened === undefined
+    ? document.isChangedOnDisk()
+    : opened.getText() !== document.getText();
+}
+
+/**
+ * Prompts for the files and folders to autofix.
+ */
+async function selectAutofixTargets(): Promise<undefined | Uri[]> {
+  return window.showOpenDialog({
+    canSelectFiles: true,
+    canSelectFolders: true,
+    canSelectMany: true,
+    defaultUri: workspace.workspaceFolders?.[0]?.uri,
+    filters: { Protobuf: ['proto'] },
+    openLabel: 'Autofix',
+    title: 'protolint autofix',
+  });
+}
+
+/**
+ * For testing purposes only. Please don't use it for the extension logic.
+ */
+const testing = {
+  autofixEdit,
+  autofixSummary,
+  findProtobufFiles,
+  isStale,
+};
+
+export { Fixer, testing };
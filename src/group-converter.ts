@@ -0,0 +1,66 @@
+import { EndOfLine, Range, TextEdit } from 'vscode';
+
+import { statementAt } from './protobuf-statements.js';
+
+import type { TextDocument } from 'vscode';
+
+const LABEL = String.raw`(?:optional|repeated|required)\s+`;
+const NAME = String.raw`[a-zA-Z_]\w*`;
+const NUMBER = String.raw`0[xX][\da-fA-F]+|\d+`;
+const OPTIONS = String.raw`\[[^\]]*\]`;
+
+/**
+ * A group field declaration up to the `{` opening the group body.
+ */
+const GROUP_HEADER = new RegExp(
+  String.raw`^(?<label>${LABEL})?group\s+(?<name>${NAME})\s*=\s*(?<number>${NUMBER})\s*(?<options>${OPTIONS})?\s*\{$`,
+);
+
+/**
+ * Computes the edit replacing the group field with a nested message of the
+ * same name and a field of this message type, e.g.
+ * `repeated group Result = 1 { ... }` with `message Result { ... }` and
+ * `repeated Result result = 1;`. The field is named after the lowercased group
+ * name, like the field implicitly declared by the group.
+ *
+ * @param document The protobuf document.
+ * @param offset The offset of the `group` keyword.
+ * @returns The edit, if the group declaration is recognized.
+ */
+function groupToMessageEdit(
+  document: TextDocument,
+  offset: number,
+): TextEdit | undefined {
+  const text = document.getText();
+  const statement = statementAt(text, offset);
+
+  if (statement?.bodyStart === undefined) {
+    return;
+  }
+
+  const { bodyStart, start, statementEnd } = statement;
+  const groups = GROUP_HEADER.exec(text.slice(start, bodyStart))?.groups;
+
+  if (groups?.name === undefined || groups.number === undefined) {
+    return;
+  }
+
+  const { label = '', name, number, options } = groups;
+  const startPosition = document.positionAt(start);
+  const { firstNonWhitespaceCharacterIndex, text: lineText } = document.lineAt(
+    startPosition.line,
+  );
+  const indentation = lineText.slice(0, firstNonWhitespaceCharacterIndex);
+  const eol = document.eol === EndOfLine.CRLF ? '\r\n' : '\n';
+  const body = text.slice(bodyStart, statementEnd - 1);
+  const field = [label + name, name.toLowerCase(), '=', number, options]
+    .filter((part) => part !== undefined)
+    .join(' ');
+
+  return new TextEdit(
+    new Range(startPosition, document.positionAt(statementEnd)),
+    `message ${name} {${body}}${eol}${indentation}${field};`,
+  );
+}
+
+export { groupToMessageEdit };
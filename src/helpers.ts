@@ -1,12 +1,23 @@
+import path from 'node:path';
+
 import { commands, Uri, window, workspace } from 'vscode';
 
-import { CONFIG_BASENAME } from './constants.js';
+import { CONFIG_BASENAMES, CONFIG_SECTION } from './constants.js';
 import { logger } from './logger.js';
 
 import type { TextEditor, Event as TypedEvent } from 'vscode';
 
 import type { TExtensionCommands, TResult } from './constants.js';
 
+/**
+ * `protolint` config file path configuration key in VS Code Settings.
+ */
+const CONFIG_CONFIG_PATH_KEY = 'configPath';
+/**
+ * `protolint` config file path VS Code name.
+ */
+const CONFIG_CONFIG_PATH_SECTION = `${CONFIG_SECTION}.${CONFIG_CONFIG_PATH_KEY}`;
+
 enum LocateExecutableErrorCode {
   Dismiss = 'DIALOG_DISMISSED',
 }
@@ -120,8 +131,12 @@ const executeCommand: TExecuteCommand = function (...arguments_) {
 };
 
 /**
- * If a `protolint` config file exists in the Workspace Folder root, returns
- * this file absolute path.
+ * Returns the absolute path of `protolint` config file for the document.
+ *
+ * The path in {@link CONFIG_CONFIG_PATH_KEY} setting is used, if set. VS Code
+ * ignores its Workspace and Workspace Folder values in Restricted Mode.
+ * Otherwise, the nearest config file is searched from the document directory
+ * up to the Workspace Folder root, as `protolint` does.
  *
  * @param uri The document URI for which the config search is being performed
  */
@@ -132,27 +147,141 @@ async function getConfigPath(uri: Uri): Promise<string | undefined> {
     return;
   }
 
-  const configUri = Uri.joinPath(workspaceFolder.uri, CONFIG_BASENAME);
+  const setting = workspace
+    .getConfiguration(CONFIG_SECTION, uri)
+    .get<string>(CONFIG_CONFIG_PATH_KEY, '')
+    .trim();
 
-  try {
-    await workspace.fs.stat(configUri);
-  } catch {
-    return;
+  if (setting) {
+    return path.resolve(workspaceFolder.uri.fsPath, setting);
   }
 
-  return configUri.fsPath;
+  const { uri: root } = workspaceFolder;
+  const segments = path.posix
+    .relative(root.path, path.posix.dirname(uri.path))
+    .split('/')
+    .filter((segment) => segment !== '');
+
+  for (let depth = segments.length; depth >= 0; depth--) {
+    const directory = Uri.joinPath(root, ...segments.slice(0, depth));
+
+    for (const basename of CONFIG_BASENAMES) {
+      const configUri = Uri.joinPath(directory, basename);
+
+      try {
+        await workspace.fs.stat(configUri);
+      } catch {
+        continue;
+      }
+
+      return configUri.fsPath;
+    }
+  }
+}
+
+/**
+ * Checks if `protolint` config file creation, change or deletion may change
+ * the document linting result.
+ *
+ * @param uri The document URI.
+ * @param configUri The config file URI.
+ */
+async function isAffectedByConfig(uri: Uri, configUri: Uri): Promise<boolean> {
+  const configPath = await getConfigPath(uri);
+
+  if (configPath === configUri.fsPath) {
+    return true;
+  }
+
+  const workspaceFolder = workspace.getWorkspaceFolder(uri);
+  const configDirectory = Uri.joinPath(configUri, '..');
+
+  if (
+    workspaceFolder === undefined ||
+    !isWithin(workspaceFolder.uri, configDirectory) ||
+    !isWithin(configDirectory, uri)
+  ) {
+    return false;
+  }
+
+  // A config file closer to the document takes precedence.
+  return (
+    configPath === undefined ||
+    isWithin(Uri.file(path.dirname(configPath)), configDirectory)
+  );
 }
 
 function isNodeError(value: unknown): value is NodeJS.ErrnoException {
   return value instanceof Error;
 }
 
+/**
+ * Checks if the URI is the directory itself or is located inside it.
+ *
+ * @param directory The directory URI.
+ * @param uri The URI to check.
+ */
+function isWithin(directory: Uri, uri: Uri): boolean {
+  const relative = path.posix.relative(directory.path, uri.path);
+
+  return (
+    directory.scheme === uri.scheme &&
+    directory.authority === uri.authority &&
+    relative !== '..' &&
+    !relative.startsWith('../') &&
+    !path.posix.isAbsolute(relative)
+  );
+}
+
+/**
+ * Runs the tasks keeping no more than {@link concurrency} of them running at
+ * the same time.
+ *
+ * @param tasks The tasks to run.
+ * @param concurrency The maximum number of the tasks running at once.
+ * @returns The task outcomes in the same order as {@link tasks}.
+ */
+async function runConcurrently<T>(
+  tasks: readonly (() => Promise<T>)[],
+  concurrency: number,
+): Promise<PromiseSettledResult<T>[]> {
+  const results: PromiseSettledResult<T>[] = [];
+  let next = 0;
+
+  async function worker(): Promise<void> {
+    while (next < tasks.length) {
+      const index = next++;
+      const task = tasks[index];
+
+      if (task === undefined) {
+        continue;
+      }
+
+      try {
+        results[index] = { status: 'fulfilled', value: await task() };
+      } catch (error) {
+        results[index] = { reason: error, status: 'rejected' };
+      }
+    }
+  }
+
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, tasks.length) }, worker),
+  );
+
+  return results;
+}
+
 export type { TExtractListener, TWriteable };
 export {
+  CONFIG_CONFIG_PATH_KEY,
+  CONFIG_CONFIG_PATH_SECTION,
   executeCommand,
   fixIndents,
   getConfigPath,
+  isAffectedByConfig,
   isNodeError,
   locateExecutable,
   registerCommand,
+  runConcurrently,
 };
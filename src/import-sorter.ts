@@ -0,0 +1,177 @@
+import { EndOfLine, Position, Range, TextEdit } from 'vscode';
+
+import { parseSymbols } from './protobuf-symbols.js';
+
+import type { TextDocument } from 'vscode';
+
+const IMPORT_MODIFIER = String.raw`(?:public|weak)\s+`;
+const IMPORT_LOCATION = String.raw`"[^"\n]*"|'[^'\n]*'`;
+const TRAILING_COMMENT = String.raw`\/\/.*|\/\*.*\*\/`;
+
+/**
+ * A line with a single `import` statement and an optional trailing comment.
+ */
+const IMPORT_LINE = new RegExp(
+  String.raw`^\s*import\s+(?:${IMPORT_MODIFIER})?(?<location>${IMPORT_LOCATION})\s*;\s*(?:${TRAILING_COMMENT})?\s*$`,
+);
+
+/**
+ * An `import` statement occupying the whole line.
+ */
+interface IImportLine {
+  /**
+   * The zero-based line number.
+   */
+  line: number;
+
+  /**
+   * The import path string literal with quotes, as `protolint` compares them.
+   */
+  location: string;
+  path: string;
+
+  /**
+   * The line text, including the modifier and the trailing comment.
+   */
+  text: string;
+}
+
+/**
+ * Compares the strings by their code units, as Go does.
+ */
+function compareLocations(a: string, b: string): number {
+  if (a === b) {
+    return 0;
+  }
+
+  return a < b ? -1 : 1;
+}
+
+/**
+ * Finds the groups of `import` statements on consecutive lines. Like
+ * `protolint`, each group is sorted separately, so a blank line or a comment
+ * line between the imports starts a new group.
+ *
+ * The lines with several statements aren't grouped with other lines, as they
+ * can't be reordered line by line.
+ *
+ * @param document The protobuf document.
+ */
+function findImportGroups(document: TextDocument): IImportLine[][] {
+  const groups: IImportLine[][] = [];
+  let previous: IImportLine | undefined;
+
+  for (const { path, start } of parseSymbols(document.getText()).imports) {
+    const { line } = document.positionAt(start);
+    const { text } = document.lineAt(line);
+    const location = IMPORT_LINE.exec(text)?.groups?.location;
+
+    if (location === undefined) {
+      previous = undefined;
+      continue;
+    }
+
+    const current: IImportLine = { line, location, path, text };
+    const group = groups.at(-1);
+
+    if (previous?.line === line - 1 && group !== undefined) {
+      group.push(current);
+    } else {
+      groups.push([current]);
+    }
+
+    previous = current;
+  }
+
+  return groups;
+}
+
+/**
+ * Finds the range of the `import` group containing the line.
+ *
+ * @param document The protobuf document.
+ * @param line The zero-based line number.
+ */
+function importGroupRange(
+  document: TextDocument,
+  line: number,
+): Range | undefined {
+  const group = findImportGroups(document).find((candidate) =>
+    candidate.some((item) => item.line === line),
+  );
+  const first = group?.[0];
+  const last = group?.at(-1);
+
+  if (first === undefined || last === undefined) {
+    return;
+  }
+
+  return new Range(
+    new Position(
+      first.line,
+      document.lineAt(first.line).firstNonWhitespaceCharacterIndex,
+    ),
+    document.lineAt(last.line).range.end,
+  );
+}
+
+/**
+ * Computes the edits sorting each `import` group by the import paths the way
+ * `protolint` does. The duplicate imports are removed. The modifiers and the
+ * trailing comments are kept with their imports.
+ *
+ * @param document The protobuf document.
+ * @returns The edits replacing the unsorted groups, if any.
+ */
+function organizeImportsEdits(document: TextDocument): TextEdit[] {
+  const eol = document.eol === EndOfLine.CRLF ? '\r\n' : '\n';
+  const seen = new Set<string>();
+  const edits: TextEdit[] = [];
+
+  for (const group of findImportGroups(document)) {
+    const [first] = group;
+    const last = group.at(-1);
+
+    if (first === undefined || last === undefined) {
+      continue;
+    }
+
+    const organized = group
+      .filter(({ path }) => {
+        if (seen.has(path)) {
+          return false;
+        }
+
+        seen.add(path);
+
+        return true;
+      })
+      .toSorted((a, b) => compareLocations(a.location, b.location));
+    const text = organized.map((item) => item.text).join(eol);
+    const range = new Range(
+      first.line,
+      0,
+      last.line,
+      document.lineAt(last.line).text.length,
+    );
+
+    if (text === document.getText(range)) {
+      continue;
+    }
+
+    edits.push(
+      organized.length > 0
+        ? new TextEdit(range, text)
+        : new TextEdit(
+            range.with({
+              end: document.lineAt(last.line).rangeIncludingLineBreak.end,
+            }),
+            '',
+          ),
+    );
+  }
+
+  return edits;
+}
+
+export { importGroupRange, organizeImportsEdits };
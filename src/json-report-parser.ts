@@ -25,10 +25,38 @@ interface IJsonLints {
  */
 interface IJsonLintsItem {
   column: number;
+
+  /**
+   * The rule description. Reported in SARIF format only.
+   */
+  description?: string;
+
+  /**
+   * 1-based column after the end of the reported region. Reported in SARIF
+   * format only.
+   */
+  endColumn?: number;
+
+  /**
+   * 1-based line where the reported region ends. Reported in SARIF format
+   * only.
+   */
+  endLine?: number;
   filename: string;
+
+  /**
+   * The rule documentation URI. Reported in SARIF format only.
+   */
+  helpUri?: string;
   line: number;
   message: string;
   rule: string;
+
+  /**
+   * The severity reported for the linting error. Reported by newer `protolint`
+   * versions only.
+   */
+  severity?: string;
 }
 
 interface IParseJsonError {
@@ -69,7 +97,13 @@ function isJsonLintsItem(argument: unknown): argument is IJsonLintsItem {
     'message' in argument &&
     typeof argument.message === 'string' &&
     'rule' in argument &&
-    typeof argument.rule === 'string'
+    typeof argument.rule === 'string' &&
+    (!('severity' in argument) || typeof argument.severity === 'string') &&
+    (!('description' in argument) ||
+      typeof argument.description === 'string') &&
+    (!('endColumn' in argument) || typeof argument.endColumn === 'number') &&
+    (!('endLine' in argument) || typeof argument.endLine === 'number') &&
+    (!('helpUri' in argument) || typeof argument.helpUri === 'string')
   );
 }
 
@@ -107,5 +141,5 @@ function parseJsonStderr(
   return { result: 'success', value: result.lints };
 }
 
-export type { IJsonLintsItem };
+export type { IJsonLintsItem, IParseJsonError };
 export { parseJsonStderr };
@@ -0,0 +1,248 @@
+import path from 'node:path';
+
+import { Diagnostic, DiagnosticSeverity } from 'vscode';
+
+import { DIAGNOSTIC_SOURCE, RUNTIME_ERROR_CODE } from './constants.js';
+import { ProtolintExitCode, ReportFormat } from './executable.js';
+import { parseJsonStderr } from './json-report-parser.js';
+import { ProtolintDiagnostic } from './rule-mapper.js';
+import { runtimeErrorRange } from './runtime-error.js';
+import { parseSarifStderr } from './sarif-report-parser.js';
+import { resolveSeverity } from './severity.js';
+
+import type { TextDocument, Uri } from 'vscode';
+
+import type { TResult } from './constants.js';
+import type { IExecuteResult } from './executable.js';
+import type { IJsonLintsItem, IParseJsonError } from './json-report-parser.js';
+import type { IParseSarifError } from './sarif-report-parser.js';
+
+enum LintReportErrorCode {
+  Ambiguous = 'AMBIGUOUS_BATCH_RESULT',
+  ExitCode = 'UNEXPECTED_EXIT_CODE',
+  Parse = 'REPORT_PARSE_FAILED',
+  Stderr = 'NO_STDERR',
+}
+
+/**
+ * An error occurred when converting `protolint` output to diagnostics.
+ */
+interface ILintReportError {
+  code: LintReportErrorCode;
+  details?: unknown;
+
+  /**
+   * A human-readable error description.
+   */
+  message: string;
+}
+
+/**
+ * Converts a `protolint lint` outcome for a single document to VS Code
+ * diagnostics.
+ *
+ * @param document The linted document.
+ * @param result The linter outcome.
+ * @param ignoredRules The rules to skip the linting errors for.
+ * @returns Diagnostics to set for the document.
+ */
+function lintDiagnostics(
+  document: TextDocument,
+  { exitCode, reportFormat, stderr }: IExecuteResult,
+  ignoredRules: ReadonlySet<string> = new Set(),
+): TResult<Diagnostic[], ILintReportError> {
+  switch (exitCode) {
+    case ProtolintExitCode.Clear:
+      return { result: 'success', value: [] };
+
+    case ProtolintExitCode.LintFlags:
+    case ProtolintExitCode.OtherErrors: {
+      if (stderr === undefined) {
+        return {
+          error: {
+            code: LintReportErrorCode.Stderr,
+            message: `stderr wasn't provided with protolint exit code: ${exitCode.toString()}`,
+          },
+          result: 'error',
+        };
+      }
+
+      if (exitCode === ProtolintExitCode.OtherErrors) {
+        return {
+          result: 'success',
+          value: [runtimeDiagnostic(document, stderr)],
+        };
+      }
+
+      const parse = parseReport(stderr, reportFormat);
+
+      if (parse.result === 'error') {
+        return {
+          error: {
+            code: LintReportErrorCode.Parse,
+            details: parse.error,
+            message: `Failed to parse protolint stderr due to an error: ${parse.error.code}`,
+          },
+          result: 'error',
+        };
+      }
+
+      return {
+        result: 'success',
+        value: protolintDiagnostics(document, parse.value, ignoredRules),
+      };
+    }
+
+    // undefined or unexpected exit code value.
+    default:
+      return {
+        error: {
+          code: LintReportErrorCode.ExitCode,
+          // eslint-disable-next-line @typescript-eslint/restrict-template-expressions
+          message: `Protolint returned an unexpected exit code ${exitCode}. Can't refresh errors`,
+        },
+        result: 'error',
+      };
+  }
+}
+
+/**
+ * Parses `protolint` report with the parser matching the report format.
+ *
+ * @param stderr `protolint` stderr.
+ * @param reportFormat The report format `protolint` was run with.
+ */
+function parseReport(
+  stderr: string,
+  reportFormat = ReportFormat.Json,
+): TResult<IJsonLintsItem[], IParseJsonError | IParseSarifError> {
+  return reportFormat === ReportFormat.Sarif
+    ? parseSarifStderr(stderr)
+    : parseJsonStderr(stderr);
+}
+
+/**
+ * Creates diagnostics for the document linting errors, skipping the rules
+ * turned off via `protolint.severity` setting.
+ *
+ * @param document The linted document.
+ * @param items `protolint` linting errors for the document.
+ * @param ignoredRules The rules to skip the linting errors for.
+ */
+function protolintDiagnostics(
+  document: TextDocument,
+  items: readonly IJsonLintsItem[],
+  ignoredRules: ReadonlySet<string> = new Set(),
+): ProtolintDiagnostic[] {
+  return items
+    .filter(({ rule }) => !ignoredRules.has(rule))
+    .filter((item) => resolveSeverity(document, item) !== undefined)
+    .map((item) => new ProtolintDiagnostic(document, item));
+}
+
+/**
+ * Builds a diagnostic for the case when `protolint` failed to lint the
+ * document, e.g. due to a protobuf syntax error.
+ *
+ * @param document The linted document.
+ * @param stderr `protolint` stderr.
+ */
+function runtimeDiagnostic(document: TextDocument, stderr: string): Diagnostic {
+  // Errors have a special format in this case, so `runtimeErrorRange`
+  // should be used.
+  const range = runtimeErrorRange(document, stderr);
+  const diagnostic = new Diagnostic(
+    range.result === 'success' ? range.value : document.lineAt(0).range,
+    stderr.trim(),
+    DiagnosticSeverity.Error,
+  );
+
+  diagnostic.source = DIAGNOSTIC_SOURCE;
+  diagnostic.code = RUNTIME_ERROR_CODE;
+
+  return diagnostic;
+}
+
+/**
+ * Splits `protolint lint` outcome for several files into the outcomes for each
+ * file, as if the files were linted one by one. The linting errors of each
+ * file are reported in JSON format.
+ *
+ * @param result The linter outcome for all {@link uris}.
+ * @param uris The linted file URIs.
+ * @param cwd CWD `protolint` was run with. `protolint` may report relative
+ * file names which are resolved against this directory.
+ * @returns The linter outcome for each of {@link uris}. If `protolint` failed
+ * to lint some file, the error code is {@link LintReportErrorCode.Ambiguous},
+ * and the files should be linted one by one.
+ */
+function splitResult(
+  result: IExecuteResult,
+  uris: readonly Uri[],
+  cwd: string,
+): TResult<Map<Uri, IExecuteResult>, ILintReportError> {
+  const { exitCode, reportFormat, stderr } = result;
+
+  if (exitCode === ProtolintExitCode.OtherErrors && uris.length > 1) {
+    return {
+      error: {
+        code: LintReportErrorCode.Ambiguous,
+        message: `Protolint failed linting one of ${uris.length.toString()} files`,
+      },
+      result: 'error',
+    };
+  }
+
+  // The outcome is the same for all files, e.g. there are no linting errors.
+  if (uris.length === 1 || stderr === undefined) {
+    return {
+      result: 'success',
+      value: new Map(uris.map((uri) => [uri, result])),
+    };
+  }
+
+  const parse = parseReport(stderr, reportFormat);
+
+  if (parse.result === 'error') {
+    return {
+      error: {
+        code: LintReportErrorCode.Parse,
+        details: parse.error,
+        message: `Failed to parse protolint stderr due to an error: ${parse.error.code}`,
+      },
+      result: 'error',
+    };
+  }
+
+  const lints = new Map<string, IJsonLintsItem[]>(
+    uris.map(({ fsPath }) => [path.normalize(fsPath), []]),
+  );
+
+  for (const item of parse.value) {
+    lints.get(path.resolve(cwd, item.filename))?.push(item);
+  }
+
+  const value = new Map<Uri, IExecuteResult>();
+
+  for (const uri of uris) {
+    const items = lints.get(path.normalize(uri.fsPath)) ?? [];
+
+    value.set(
+      uri,
+      items.length > 0
+        ? { exitCode, stderr: JSON.stringify({ lints: items }) }
+        : { exitCode: ProtolintExitCode.Clear },
+    );
+  }
+
+  return { result: 'success', value };
+}
+
+export type { ILintReportError };
+export {
+  lintDiagnostics,
+  LintReportErrorCode,
+  parseReport,
+  protolintDiagnostics,
+  splitResult,
+};
@@ -0,0 +1,117 @@
+import { workspace } from 'vscode';
+
+import { CONFIG_SECTION } from './constants.js';
+
+import type { ConfigurationScope, Disposable, Uri } from 'vscode';
+
+/**
+ * Lint-on-type debounce delay configuration key in VS Code Settings.
+ */
+const CONFIG_DEBOUNCE_DELAY_KEY = 'debounceDelay';
+
+/**
+ * The default lint-on-type debounce delay in milliseconds.
+ */
+const DEFAULT_DEBOUNCE_DELAY = 300;
+
+/**
+ * A scheduled linting of one document.
+ */
+interface ILintTask {
+  controller: AbortController;
+  timeout?: NodeJS.Timeout;
+}
+
+/**
+ * A linting operation which should stop as soon as the {@link signal} is
+ * aborted.
+ */
+type TLintOperation = (signal: AbortSignal) => Promise<void>;
+
+/**
+ * Debounces linting per document.
+ *
+ * Scheduling a new linting for the document cancels the pending one and aborts
+ * the running one, so only the latest document text is linted.
+ */
+class LintScheduler implements Disposable {
+  readonly #tasks = new Map<string, ILintTask>();
+
+  /**
+   * Aborts the scheduled or running linting for the document, if any.
+   *
+   * @param uri The document URI.
+   */
+  cancel(uri: Uri): void {
+    const key = uri.toString();
+    const task = this.#tasks.get(key);
+
+    if (task === undefined) {
+      return;
+    }
+
+    clearTimeout(task.timeout);
+    task.controller.abort();
+    this.#tasks.delete(key);
+  }
+
+  dispose(): void {
+    for (const { controller, timeout } of this.#tasks.values()) {
+      clearTimeout(timeout);
+      controller.abort();
+    }
+
+    this.#tasks.clear();
+  }
+
+  /**
+   * Runs the linting for the document after the delay, replacing the
+   * previously scheduled one.
+   *
+   * @param uri The document URI.
+   * @param delay The delay in milliseconds.
+   * @param operation The linting to run.
+   */
+  schedule(uri: Uri, delay: number, operation: TLintOperation): void {
+    this.cancel(uri);
+
+    const key = uri.toString();
+    const task: ILintTask = { controller: new AbortController() };
+
+    task.timeout = setTimeout(() => {
+      void this._run(key, task, operation);
+    }, delay);
+
+    this.#tasks.set(key, task);
+  }
+
+  private async _run(
+    key: string,
+    task: ILintTask,
+    operation: TLintOperation,
+  ): Promise<void> {
+    try {
+      await operation(task.controller.signal);
+    } finally {
+      if (this.#tasks.get(key) === task) {
+        this.#tasks.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Gets the lint-on-type debounce delay for the resource from VS Code Settings.
+ *
+ * @param scope The resource to get the setting for.
+ * @returns The delay in milliseconds.
+ */
+function getDebounceDelay(scope: ConfigurationScope): number {
+  const delay = workspace
+    .getConfiguration(CONFIG_SECTION, scope)
+    .get<number>(CONFIG_DEBOUNCE_DELAY_KEY, DEFAULT_DEBOUNCE_DELAY);
+
+  return Number.isFinite(delay) && delay >= 0 ? delay : DEFAULT_DEBOUNCE_DELAY;
+}
+
+export { getDebounceDelay, LintScheduler };
@@ -0,0 +1,195 @@
+import path from 'node:path';
+
+import { Uri, workspace } from 'vscode';
+
+import { CONFIG_SECTION, PROTOBUF_GLOB } from './constants.js';
+import { parseSymbols } from './protobuf-symbols.js';
+import { TextSnapshot } from './text-snapshot.js';
+
+import type { CancellationToken, TextDocument } from 'vscode';
+
+import type { IProtobufImport, IProtobufSymbols } from './protobuf-symbols.js';
+
+/**
+ * Import roots configuration key in VS Code Settings.
+ */
+const CONFIG_IMPORT_ROOTS_KEY = 'importRoots';
+
+/**
+ * A protobuf file with its symbols.
+ */
+interface IProtobufFile {
+  document: TextDocument;
+
+  /**
+   * The directories the file imports are relative to. If empty, the imports
+   * are matched against the end of the file paths.
+   */
+  importRoots: Uri[];
+  symbols: IProtobufSymbols;
+}
+
+/**
+ * Gets the import root directories for the file from VS Code Settings.
+ * Relative paths are resolved against the Workspace Folder root, and ignored
+ * for the files outside of Workspace Folders.
+ *
+ * @param uri The protobuf file URI.
+ */
+function getImportRoots(uri: Uri): Uri[] {
+  const workspaceFolder = workspace.getWorkspaceFolder(uri);
+  const roots: Uri[] = [];
+
+  for (const setting of workspace
+    .getConfiguration(CONFIG_SECTION, uri)
+    .get<string[]>(CONFIG_IMPORT_ROOTS_KEY, [])) {
+    if (path.isAbsolute(setting)) {
+      roots.push(Uri.file(setting));
+    } else if (workspaceFolder !== undefined) {
+      roots.push(Uri.joinPath(workspaceFolder.uri, setting));
+    }
+  }
+
+  return roots;
+}
+
+/**
+ * Finds the workspace files the file imports, including the files the imported
+ * files import with `import public`, transitively. The declarations of all of
+ * them are visible in the file.
+ *
+ * @param file The importing file.
+ * @param files The workspace files.
+ */
+function importedFiles(
+  file: IProtobufFile,
+  files: readonly IProtobufFile[],
+): IProtobufFile[] {
+  const imported: IProtobufFile[] = [];
+  const pending = file.symbols.imports.map((item) => [file, item] as const);
+
+  for (let next = pending.shift(); next !== undefined; next = pending.shift()) {
+    const resolved = resolveImport(...next, files);
+
+    if (
+      resolved === undefined ||
+      resolved === file ||
+      imported.includes(resolved)
+    ) {
+      continue;
+    }
+
+    imported.push(resolved);
+    pending.push(
+      ...resolved.symbols.imports
+        .filter(({ modifier }) => modifier === 'public')
+        .map((item) => [resolved, item] as const),
+    );
+  }
+
+  return imported;
+}
+
+/**
+ * Reads the protobuf files of the workspace. The text of the files opened in
+ * VS Code is taken from the editor, so the unsaved changes are respected. The
+ * files which can't be read are skipped.
+ *
+ * @param document The document to put first, even if it's outside of the
+ * workspace.
+ * @param token The cancellation token.
+ */
+async function loadProtobufFiles(
+  document: TextDocument,
+  token: CancellationToken,
+): Promise<IProtobufFile[]> {
+  const uris = await workspace.findFiles(
+    PROTOBUF_GLOB,
+    undefined,
+    undefined,
+    token,
+  );
+  const files = [protobufFile(document)];
+
+  for (const uri of uris) {
+    if (uri.toString() === document.uri.toString()) {
+      continue;
+    }
+
+    let file = workspace.textDocuments.find(
+      (candidate) => candidate.uri.toString() === uri.toString(),
+    );
+
+    try {
+      file ??= await TextSnapshot.fromFile(uri);
+    } catch {
+      continue;
+    }
+
+    files.push(protobufFile(file));
+  }
+
+  return files;
+}
+
+function protobufFile(document: TextDocument): IProtobufFile {
+  return {
+    document,
+    importRoots: getImportRoots(document.uri),
+    symbols: parseSymbols(document.getText()),
+  };
+}
+
+/**
+ * Finds the workspace file the import statement refers to.
+ *
+ * The import roots are searched in order, like `protoc` does. Without import
+ * roots, the import path is matched against the end of the file paths. If it
+ * matches several files, the file relative to the Workspace Folder of the
+ * importing file is taken, if any.
+ *
+ * @param file The importing file.
+ * @param item The import statement of the file.
+ * @param files The workspace files.
+ * @returns The imported file, or `undefined` if the import can't be resolved
+ * unambiguously.
+ */
+function resolveImport(
+  { document, importRoots }: IProtobufFile,
+  item: IProtobufImport,
+  files: readonly IProtobufFile[],
+): IProtobufFile | undefined {
+  const findFile = (uri: Uri): IProtobufFile | undefined =>
+    files.find(
+      (candidate) => candidate.document.uri.toString() === uri.toString(),
+    );
+
+  if (importRoots.length > 0) {
+    for (const root of importRoots) {
+      const imported = findFile(Uri.joinPath(root, item.path));
+
+      if (imported !== undefined) {
+        return imported;
+      }
+    }
+
+    return;
+  }
+
+  const candidates = files.filter((candidate) =>
+    candidate.document.uri.path.endsWith(`/${item.path}`),
+  );
+
+  if (candidates.length < 2) {
+    return candidates[0];
+  }
+
+  const workspaceFolder = workspace.getWorkspaceFolder(document.uri);
+
+  return workspaceFolder === undefined
+    ? undefined
+    : findFile(Uri.joinPath(workspaceFolder.uri, item.path));
+}
+
+export type { IProtobufFile };
+export { importedFiles, loadProtobufFiles, resolveImport };
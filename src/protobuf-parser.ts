@@ -9,6 +9,9 @@ const COMMENT_CLOSE = String.raw`\*\/`;
 const IDENTIFIER = String.raw`[a-zA-Z_]\w*`;
 const QUALIFIED_IDENTIFIER = String.raw`${IDENTIFIER}(?:\.${IDENTIFIER})*`;
 const FIELD_TYPE = String.raw`\.?${IDENTIFIER}(?:\.${IDENTIFIER})*`;
+const GROUP = String.raw`\bgroup\b`;
+const INTEGER = String.raw`0[xX][\da-fA-F]+|\d+`;
+const FIELD_NUMBER = String.raw`(?<==\s*)(?:${INTEGER})`;
 const REQUIRED = 'required';
 const FIELD_CARDINALITY = `${REQUIRED}|optional|repeated`;
 const FIELD_DECLARATION_EXCEPTIONS = `^group|message|enum|oneof|reserved|extensions|extend|option|${FIELD_CARDINALITY}`;
@@ -46,7 +49,13 @@ enum TokenKind {
   EnumValueName = 'enum_value_name',
   FieldCardinality = 'field_cardinality',
   FieldName = 'field_name',
+  FieldNumber = 'field_number',
   FieldType = 'field_type',
+
+  /**
+   * The `group` keyword of a group field.
+   */
+  Group = 'group',
   Message = 'message',
   MessageName = 'message_name',
   Package = 'package',
@@ -131,6 +140,17 @@ class TokenMap {
     this.#line = this.#doc.lineAt(0);
   }
 
+  /**
+   * Finds all comments in the document lines.
+   *
+   * The method doesn't add tokens to {@link TokenMap.tokens}
+   *
+   * @returns The comments of each line, indexed by zero-based line number.
+   */
+  public comments(): TResult<ITokenRange[][], ILookupError> {
+    return this._comments(this.#doc.lineCount - 1);
+  }
+
   /**
    * Searches a token range line-by-line. If the token isn't found, stops after
    * the last document line.
@@ -235,6 +255,35 @@ class TokenMap {
     }
   }
 
+  /**
+   * Finds all comments in the document lines from the first line up to the
+   * specified one.
+   *
+   * @param lastLine A zero-based number of the last line to parse.
+   */
+  private _comments(lastLine: number): TResult<ITokenRange[][], ILookupError> {
+    let commentClosed = true;
+    const comments: ITokenRange[][] = [];
+
+    for (let line = 0; line <= lastLine; line++) {
+      this.#line = this.#doc.lineAt(line);
+      this.#lastIndex = 0;
+
+      const result = this._lineComments(commentClosed);
+
+      if (result.result === 'error') {
+        return result;
+      }
+
+      const lineComments = result.value.get(TokenKind.Comment) ?? [];
+
+      comments.push(lineComments);
+      commentClosed = lineComments.at(-1)?.closed ?? commentClosed;
+    }
+
+    return { result: 'success', value: comments };
+  }
+
   private _enum(excludeRanges: ITokenRange[]) {
     return this._token(TokenKind.Enum, excludeRanges, ENUM);
   }
@@ -285,6 +334,12 @@ class TokenMap {
     );
   }
 
+  private _fieldNumber(
+    excludeRanges: ITokenRange[],
+  ): TResult<TTokenMap, ILookupError> {
+    return this._token(TokenKind.FieldNumber, excludeRanges, FIELD_NUMBER);
+  }
+
   private _fieldType(
     excludeRanges: ITokenRange[],
   ): TResult<TTokenMap, ILookupError> {
@@ -388,6 +443,18 @@ class TokenMap {
         value = [this._fieldType.bind(this), this._fieldName.bind(this)];
         break;
 
+      case TokenKind.FieldNumber:
+        value = [
+          this._fieldType.bind(this),
+          this._fieldName.bind(this),
+          this._fieldNumber.bind(this),
+        ];
+        break;
+
+      case TokenKind.Group:
+        value = [this._group.bind(this)];
+        break;
+
       case TokenKind.MessageName:
         value = [this._message.bind(this), this._messageName.bind(this)];
         break;
@@ -415,6 +482,15 @@ class TokenMap {
     };
   }
 
+  /**
+   * Finds the `group` keyword of a group field.
+   */
+  private _group(
+    excludeRanges: ITokenRange[],
+  ): TResult<TTokenMap, ILookupError> {
+    return this._token(TokenKind.Group, excludeRanges, GROUP);
+  }
+
   /**
    * Returns {@link TTokenMap} with all {@link TokenKind.Comment} ranges for the
    * current document line. If a multi-line comment isn't closed at this line,
@@ -779,8 +855,8 @@ function excludeLineRanges(
  * Literal {@link RegExp} notation like `/ab+c/` isn't accepted.
  * @param lastIndex The {@link line} character index to start searching from.
  * Is combined with {@link seekRange} requirements.
- * @param limit The {@link pattern} matches limit. The function may return less
- * than {@link limit} matches.
+ * @param limit The {@link pattern} matches limit, `0` for no limit. The
+ * function may return less than {@link limit} matches.
  */
 function matchRanges(
   line: TextLine,
@@ -806,7 +882,7 @@ function matchRanges(
       start: line.range.start.with({ character }),
     });
 
-    if (limit && matches.push({ fullMatch, range }) >= limit) {
+    if (matches.push({ fullMatch, range }) === limit) {
       break;
     }
   }
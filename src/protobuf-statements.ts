@@ -0,0 +1,276 @@
+import { isComment, tokenize } from './protobuf-symbols.js';
+
+import type { IToken } from './protobuf-symbols.js';
+
+/**
+ * The kind of a top-level statement, in the order `ORDER` rule requires.
+ *
+ * {@link https://github.com/yoheimuta/protolint/blob/v0.43.2/internal/addon/rules/orderRule.go}
+ */
+enum StatementKind {
+  /**
+   * `syntax` or `edition` statement.
+   */
+  Syntax = 0,
+  Package = 1,
+  Import = 2,
+  Option = 3,
+
+  /**
+   * Messages, enums, services and extensions.
+   */
+  Other = 4,
+}
+
+/**
+ * A top-level statement of a protobuf file, or a statement of a block body.
+ */
+interface IStatement {
+  /**
+   * The offset right after the `{` opening the statement block, if the
+   * statement has a block.
+   */
+  bodyStart?: number;
+  /**
+   * The end offset, exclusive, including the trailing comments on the same
+   * line.
+   */
+  end: number;
+  kind: StatementKind;
+
+  /**
+   * The start offset of the comments right above the statement, or the
+   * statement start if there are no such comments.
+   */
+  leadingStart: number;
+
+  /**
+   * The start offset of the statement keyword.
+   */
+  start: number;
+
+  /**
+   * The end offset of the statement `;` or `}`, exclusive.
+   */
+  statementEnd: number;
+}
+
+const STATEMENT_KINDS: ReadonlyMap<string, StatementKind> = new Map([
+  ['edition', StatementKind.Syntax],
+  ['import', StatementKind.Import],
+  ['option', StatementKind.Option],
+  ['package', StatementKind.Package],
+  ['syntax', StatementKind.Syntax],
+]);
+
+/**
+ * Splits the protobuf text into top-level statements. Each statement owns the
+ * comments preceding it, except for the comments on the same line as the end
+ * of the previous statement, which are owned by the previous statement.
+ *
+ * The parser tolerates invalid syntax: a statement ends with `;` or the
+ * closing `}` of its block, whichever comes first at the top level.
+ */
+class StatementParser {
+  /**
+   * The leading comments of the next statement.
+   */
+  #comments: IToken[] = [];
+  #current: IStatement | undefined;
+  #depth = 0;
+  readonly #end: number;
+  readonly #start: number;
+  readonly #statements: IStatement[] = [];
+  readonly #text: string;
+
+  constructor(text: string, start: number, end: number) {
+    this.#text = text;
+    this.#start = start;
+    this.#end = end;
+  }
+
+  public parse(): IStatement[] {
+    for (const token of tokenize(this.#text, true)) {
+      if (token.start < this.#start || token.end > this.#end) {
+        continue;
+      }
+
+      if (isComment(token)) {
+        this._comment(token);
+      } else {
+        this._token(token);
+      }
+    }
+
+    if (this.#current !== undefined) {
+      this.#statements.push(this.#current);
+    }
+
+    return this.#statements;
+  }
+
+  private _comment(token: IToken): void {
+    if (this.#current !== undefined) {
+      return;
+    }
+
+    const previous = this.#statements.at(-1);
+    const sameLine = !/[\n\r]/.test(
+      this.#text.slice(previous?.statementEnd ?? this.#start, token.start),
+    );
+
+    if (previous === undefined && this.#start > 0 && sameLine) {
+      // The comment after the block `{` belongs to the block statement.
+      return;
+    }
+
+    if (previous !== undefined && this.#comments.length === 0 && sameLine) {
+      previous.end = token.end;
+    } else {
+      this.#comments.push(token);
+    }
+  }
+
+  /**
+   * Finds the start of the comments right above the statement. The comments
+   * separated by a blank line, e.g. the file header, aren't moved with the
+   * statement.
+   */
+  private _leadingStart(start: number): number {
+    let leadingStart = start;
+
+    for (const comment of this.#comments.toReversed()) {
+      if (/\n\s*\n/.test(this.#text.slice(comment.end, leadingStart))) {
+        break;
+      }
+
+      leadingStart = comment.start;
+    }
+
+    return leadingStart;
+  }
+
+  private _token(token: IToken): void {
+    const { end, start, text } = token;
+    const previous = this.#statements.at(-1);
+
+    // A stray `;` is an empty statement, which is kept with the previous one.
+    if (
+      this.#current === undefined &&
+      text === ';' &&
+      previous !== undefined &&
+      this.#comments.length === 0
+    ) {
+      previous.end = end;
+      previous.statementEnd = end;
+
+      return;
+    }
+
+    this.#current ??= {
+      end,
+      kind: STATEMENT_KINDS.get(text) ?? StatementKind.Other,
+      leadingStart: this._leadingStart(start),
+      start,
+      statementEnd: end,
+    };
+    this.#comments = [];
+    this.#current.end = end;
+    this.#current.statementEnd = end;
+
+    if (text === '{' && this.#depth === 0) {
+      this.#current.bodyStart ??= end;
+    }
+
+    if (text === '{' || text === '(' || text === '[') {
+      this.#depth++;
+    } else if (
+      this.#depth > 0 &&
+      (text === '}' || text === ')' || text === ']')
+    ) {
+      this.#depth--;
+    }
+
+    if (this.#depth === 0 && (text === ';' || text === '}')) {
+      this.#statements.push(this.#current);
+      this.#current = undefined;
+    }
+  }
+}
+
+/**
+ * Splits the protobuf text into top-level statements, or the statements of a
+ * block body if the body offsets are set.
+ *
+ * @param text The protobuf file text.
+ * @param start The body start offset, see {@link IStatement.bodyStart}.
+ * @param end The body end offset, i.e. the offset of the closing `}`.
+ */
+function parseStatements(
+  text: string,
+  start = 0,
+  end = text.length,
+): IStatement[] {
+  return new StatementParser(text, start, end).parse();
+}
+
+/**
+ * Moves the top-level statements into the order `ORDER` rule requires:
+ * `syntax`, `package`, imports, options, then everything else. The relative
+ * order of the statements of the same kind is kept. Each statement is moved
+ * with its comments, and the whitespace between the statements stays in
+ * place.
+ *
+ * @param text The protobuf file text.
+ * @returns The reordered text.
+ */
+function reorderStatements(text: string): string {
+  const statements = parseStatements(text);
+  const ordered = statements.toSorted((a, b) => a.kind - b.kind);
+  let result = '';
+  let offset = 0;
+
+  for (const [index, statement] of statements.entries()) {
+    const { end, leadingStart } = ordered[index] ?? statement;
+
+    result += text.slice(offset, statement.leadingStart);
+    result += text.slice(leadingStart, end);
+    offset = statement.end;
+  }
+
+  return result + text.slice(offset);
+}
+
+/**
+ * Finds the innermost statement containing the offset, descending into the
+ * statement blocks.
+ *
+ * @param text The protobuf file text.
+ * @param offset The offset within the statement, excluding its comments.
+ */
+function statementAt(text: string, offset: number): IStatement | undefined {
+  let statements = parseStatements(text);
+
+  for (;;) {
+    const statement = statements.find(
+      ({ start, statementEnd }) => start <= offset && offset < statementEnd,
+    );
+
+    if (
+      statement?.bodyStart === undefined ||
+      offset < statement.bodyStart ||
+      offset >= statement.statementEnd - 1
+    ) {
+      return statement;
+    }
+
+    statements = parseStatements(
+      text,
+      statement.bodyStart,
+      statement.statementEnd - 1,
+    );
+  }
+}
+
+export type { IStatement };
+export { parseStatements, reorderStatements, statementAt, StatementKind };
@@ -0,0 +1,608 @@
+/**
+ * Protobuf scalar value types, which aren't references to the declared types.
+ *
+ * {@link https://protobuf.dev/programming-guides/proto3/#scalar}
+ */
+const SCALAR_TYPES: ReadonlySet<string> = new Set([
+  'bool',
+  'bytes',
+  'double',
+  'fixed32',
+  'fixed64',
+  'float',
+  'int32',
+  'int64',
+  'sfixed32',
+  'sfixed64',
+  'sint32',
+  'sint64',
+  'string',
+  'uint32',
+  'uint64',
+]);
+
+/**
+ * Field labels preceding the field type.
+ */
+const FIELD_LABELS: ReadonlySet<string> = new Set([
+  'optional',
+  'repeated',
+  'required',
+]);
+
+/**
+ * Statements which can't declare or reference types.
+ */
+const SKIPPED_STATEMENTS: ReadonlySet<string> = new Set([
+  'edition',
+  'extensions',
+  'option',
+  'reserved',
+  'syntax',
+]);
+
+const IDENTIFIER = String.raw`[a-zA-Z_]\w*`;
+const WHITESPACE = String.raw`\s+`;
+const LINE_COMMENT = String.raw`\/\/[^\n]*`;
+const BLOCK_COMMENT = String.raw`\/\*[\s\S]*?(?:\*\/|$)`;
+const DOUBLE_QUOTED = String.raw`"(?:[^"\\\n]|\\.)*"?`;
+const SINGLE_QUOTED = String.raw`'(?:[^'\\\n]|\\.)*'?`;
+const NUMBER = String.raw`\d[\w.]*`;
+
+/**
+ * Whitespace, comments, string literals, identifiers, numbers and any other
+ * single character.
+ */
+const TOKEN = [
+  WHITESPACE,
+  LINE_COMMENT,
+  BLOCK_COMMENT,
+  DOUBLE_QUOTED,
+  SINGLE_QUOTED,
+  IDENTIFIER,
+  NUMBER,
+  String.raw`[\s\S]`,
+].join('|');
+
+/**
+ * The kind of a block scope, telling which statements it can contain.
+ */
+enum ScopeKind {
+  Enum = 'enum',
+
+  /**
+   * `extend` or `oneof` block, whose fields belong to the enclosing scope.
+   */
+  Fields = 'fields',
+  Message = 'message',
+  Other = 'other',
+  Service = 'service',
+}
+
+/**
+ * A type name part, e.g. `Inner` of `Outer.Inner`, with its offsets.
+ */
+interface INamePart {
+  /**
+   * The end offset, exclusive.
+   */
+  end: number;
+  start: number;
+  text: string;
+}
+
+/**
+ * An `import` statement.
+ */
+interface IProtobufImport {
+  /**
+   * The end offset of the path string literal, exclusive.
+   */
+  end: number;
+
+  /**
+   * `public` imports are visible to the files importing this file, `weak`
+   * imports may be missing.
+   */
+  modifier?: 'public' | 'weak';
+  path: string;
+
+  /**
+   * The start offset of the path string literal, including the quote.
+   */
+  start: number;
+}
+
+/**
+ * Declarations, references and imports found in a protobuf file.
+ */
+interface IProtobufSymbols {
+  declarations: ITypeDeclaration[];
+
+  imports: IProtobufImport[];
+
+  /**
+   * The package name, empty if the file has no package.
+   */
+  package: string;
+  references: ITypeReference[];
+}
+
+interface IScope {
+  kind: ScopeKind;
+
+  /**
+   * The message name, if the scope is a message.
+   */
+  name?: string;
+}
+
+interface IToken {
+  /**
+   * The end offset, exclusive.
+   */
+  end: number;
+  start: number;
+  text: string;
+}
+
+/**
+ * A message, enum or service declaration.
+ */
+interface ITypeDeclaration {
+  /**
+   * The fully-qualified name without the leading dot, e.g. `pkg.Outer.Inner`.
+   */
+  fullName: string;
+  kind: 'enum' | 'message' | 'service';
+
+  /**
+   * The declared name offsets.
+   */
+  name: INamePart;
+}
+
+/**
+ * A type name in a field, `map` value, `rpc` or `extend` declaration.
+ */
+interface ITypeReference {
+  /**
+   * `true` if the name is fully-qualified, i.e. starts with a dot.
+   */
+  absolute: boolean;
+  parts: INamePart[];
+
+  /**
+   * The fully-qualified name of the scope the reference is resolved in: the
+   * package and the enclosing messages.
+   */
+  scope: string;
+}
+
+/**
+ * Collects protobuf type declarations and references. Like the rest of the
+ * extension's parsing, it doesn't build the syntax tree and tolerates invalid
+ * syntax, skipping the statements it doesn't understand.
+ */
+class SymbolParser {
+  readonly #declarations: ITypeDeclaration[] = [];
+  readonly #imports: IProtobufImport[] = [];
+  #index = 0;
+  #package = '';
+  readonly #references: ITypeReference[] = [];
+  readonly #scopes: IScope[] = [];
+  readonly #tokens: IToken[];
+
+  /**
+   * The fully-qualified name of the current scope.
+   */
+  private get _scopeName(): string {
+    return joinName(
+      this.#package,
+      ...this.#scopes.flatMap(({ name }) => (name === undefined ? [] : [name])),
+    );
+  }
+
+  constructor(text: string) {
+    this.#tokens = tokenize(text);
+  }
+
+  public parse(): IProtobufSymbols {
+    while (this.#index < this.#tokens.length) {
+      this._statement();
+    }
+
+    return {
+      declarations: this.#declarations,
+      imports: this.#imports,
+      package: this.#package,
+      references: this.#references,
+    };
+  }
+
+  /**
+   * Parses `message`, `enum` or `service` declaration and opens its block.
+   */
+  private _declaration(kind: ITypeDeclaration['kind']): void {
+    this.#index++;
+
+    const name = this._peek();
+
+    if (name === undefined || !isIdentifier(name.text)) {
+      this._skipStatement();
+
+      return;
+    }
+
+    this.#declarations.push({
+      fullName: joinName(this._scopeName, name.text),
+      kind,
+      name,
+    });
+    this.#index++;
+
+    if (this._peek()?.text !== '{') {
+      this._skipStatement();
+
+      return;
+    }
+
+    this.#index++;
+    this.#scopes.push(
+      kind === 'message'
+        ? { kind: ScopeKind.Message, name: name.text }
+        : { kind: kind === 'enum' ? ScopeKind.Enum : ScopeKind.Service },
+    );
+  }
+
+  /**
+   * Parses a field declaration, including `map` fields.
+   */
+  private _field(): void {
+    if (FIELD_LABELS.has(this._peek()?.text ?? '')) {
+      this.#index++;
+    }
+
+    if (
+      this._peek()?.text === 'map' &&
+      this.#tokens[this.#index + 1]?.text === '<'
+    ) {
+      this.#index += 2;
+      this._reference();
+
+      if (this._peek()?.text === ',') {
+        this.#index++;
+        this._reference();
+      }
+    } else {
+      this._reference();
+    }
+
+    this._skipStatement();
+  }
+
+  /**
+   * Parses `extend` or `oneof` declaration and opens its block.
+   */
+  private _fieldsBlock(extend: boolean): void {
+    this.#index++;
+
+    if (extend) {
+      this._reference();
+    } else {
+      this.#index++;
+    }
+
+    if (this._peek()?.text === '{') {
+      this.#index++;
+      this.#scopes.push({ kind: ScopeKind.Fields });
+    } else {
+      this._skipStatement();
+    }
+  }
+
+  private _import(): void {
+    this.#index++;
+
+    let modifier: IProtobufImport['modifier'];
+    const next = this._peek()?.text;
+
+    if (next === 'public' || next === 'weak') {
+      modifier = next;
+      this.#index++;
+    }
+
+    const path = this._peek();
+
+    if (path !== undefined && /^["']/.test(path.text)) {
+      this.#imports.push({
+        end: path.end,
+        modifier,
+        path: path.text.slice(1, -1),
+        start: path.start,
+      });
+    }
+
+    this._skipStatement();
+  }
+
+  private _package(): void {
+    this.#index++;
+
+    const name = this._typeName();
+
+    if (name !== undefined) {
+      this.#package = name.parts.map(({ text }) => text).join('.');
+    }
+
+    this._skipStatement();
+  }
+
+  private _peek(): IToken | undefined {
+    return this.#tokens[this.#index];
+  }
+
+  /**
+   * Parses a type name and records it as a reference, unless it's a scalar
+   * type.
+   */
+  private _reference(): void {
+    const name = this._typeName();
+
+    if (
+      name === undefined ||
+      (!name.absolute &&
+        name.parts.length === 1 &&
+        SCALAR_TYPES.has(name.parts[0]?.text ?? ''))
+    ) {
+      return;
+    }
+
+    this.#references.push({ ...name, scope: this._scopeName });
+  }
+
+  /**
+   * Parses `rpc` request and response types, and opens the `rpc` options block,
+   * if any.
+   */
+  private _rpc(): void {
+    this.#index += 2;
+
+    while (this.#index < this.#tokens.length) {
+      const { text } = this.#tokens[this.#index] ?? { text: ';' };
+
+      if (text === ';' || text === '{' || text === '}') {
+        break;
+      }
+
+      this.#index++;
+
+      if (text === '(') {
+        if (this._peek()?.text === 'stream') {
+          this.#index++;
+        }
+
+        this._reference();
+      }
+    }
+
+    this._skipStatement();
+  }
+
+  /**
+   * Skips tokens up to the end of the statement. If the statement opens a
+   * block, the block scope is opened.
+   */
+  private _skipStatement(): void {
+    let depth = 0;
+
+    while (this.#index < this.#tokens.length) {
+      const { text } = this.#tokens[this.#index] ?? { text: '' };
+
+      if (depth === 0 && text === '}') {
+        return;
+      }
+
+      this.#index++;
+
+      if (depth === 0 && text === ';') {
+        return;
+      }
+
+      if (depth === 0 && text === '{') {
+        this.#scopes.push({ kind: ScopeKind.Other });
+
+        return;
+      }
+
+      if (text === '(' || text === '[' || text === '{') {
+        depth++;
+      } else if (depth > 0 && (text === ')' || text === ']' || text === '}')) {
+        depth--;
+      }
+    }
+  }
+
+  private _statement(): void {
+    const token = this._peek();
+
+    if (token === undefined) {
+      return;
+    }
+
+    const { text } = token;
+    const { kind } = this.#scopes.at(-1) ?? { kind: ScopeKind.Other };
+
+    if (text === '}') {
+      this.#index++;
+      this.#scopes.pop();
+
+      return;
+    }
+
+    if (text === ';' || SKIPPED_STATEMENTS.has(text)) {
+      this._skipStatement();
+
+      return;
+    }
+
+    switch (text) {
+      case 'enum':
+      case 'message':
+      case 'service':
+        this._declaration(text);
+
+        return;
+
+      case 'extend':
+      case 'oneof':
+        this._fieldsBlock(text === 'extend');
+
+        return;
+
+      case 'import':
+        this._import();
+
+        return;
+
+      case 'package':
+        this._package();
+
+        return;
+
+      case 'rpc':
+        this._rpc();
+
+        return;
+    }
+
+    if (kind === ScopeKind.Message || kind === ScopeKind.Fields) {
+      this._field();
+    } else {
+      this._skipStatement();
+    }
+  }
+
+  /**
+   * Parses a possibly qualified type name, e.g. `.pkg.Outer.Inner`.
+   */
+  private _typeName(): Omit<ITypeReference, 'scope'> | undefined {
+    const absolute = this._peek()?.text === '.';
+    const parts: INamePart[] = [];
+
+    if (absolute) {
+      this.#index++;
+    }
+
+    for (;;) {
+      const part = this._peek();
+
+      if (part === undefined || !isIdentifier(part.text)) {
+        break;
+      }
+
+      parts.push(part);
+      this.#index++;
+
+      if (
+        this._peek()?.text !== '.' ||
+        !isIdentifier(this.#tokens[this.#index + 1]?.text ?? '')
+      ) {
+        break;
+      }
+
+      this.#index++;
+    }
+
+    return parts.length > 0 ? { absolute, parts } : undefined;
+  }
+}
+
+function isComment({ text }: IToken): boolean {
+  return /^\/[*/]/.test(text);
+}
+
+function isIdentifier(text: string): boolean {
+  return new RegExp(`^${IDENTIFIER}$`).test(text);
+}
+
+/**
+ * Joins the name parts with dots, skipping the empty ones, e.g. the empty
+ * package.
+ */
+function joinName(...parts: string[]): string {
+  return parts.filter((part) => part !== '').join('.');
+}
+
+/**
+ * Finds type declarations, type references and imports in the protobuf text.
+ *
+ * @param text The protobuf file text.
+ */
+function parseSymbols(text: string): IProtobufSymbols {
+  return new SymbolParser(text).parse();
+}
+
+/**
+ * Resolves the type reference the way `protoc` does: the first name part is
+ * searched from the innermost scope outwards.
+ *
+ * @param reference The type reference.
+ * @param isDefined Checks whether a fully-qualified name is a declared type or
+ * a package.
+ * @returns The fully-qualified type name, or `undefined` if the reference
+ * doesn't resolve to a declared type.
+ */
+function resolveReference(
+  { absolute, parts, scope }: ITypeReference,
+  isDefined: (fullName: string) => boolean,
+): string | undefined {
+  const name = parts.map(({ text }) => text).join('.');
+
+  if (absolute) {
+    return isDefined(name) ? name : undefined;
+  }
+
+  const [first] = parts;
+  const scopeParts = scope === '' ? [] : scope.split('.');
+
+  for (let { length } = scopeParts; length >= 0; length--) {
+    const prefix = scopeParts.slice(0, length).join('.');
+
+    if (first !== undefined && isDefined(joinName(prefix, first.text))) {
+      const fullName = joinName(prefix, name);
+
+      return isDefined(fullName) ? fullName : undefined;
+    }
+  }
+}
+
+/**
+ * Splits the protobuf text into tokens, skipping the whitespace.
+ *
+ * @param text The protobuf text.
+ * @param comments If `true`, the comments are kept as separate tokens.
+ */
+function tokenize(text: string, comments = false): IToken[] {
+  const tokens: IToken[] = [];
+
+  for (const { 0: token, index } of text.matchAll(new RegExp(TOKEN, 'g'))) {
+    const item = { end: index + token.length, start: index, text: token };
+
+    if (!/^\s/.test(token) && (comments || !isComment(item))) {
+      tokens.push(item);
+    }
+  }
+
+  return tokens;
+}
+
+export type {
+  INamePart,
+  IProtobufImport,
+  IProtobufSymbols,
+  IToken,
+  ITypeDeclaration,
+  ITypeReference,
+};
+export { isComment, joinName, parseSymbols, resolveReference, tokenize };
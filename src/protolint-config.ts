@@ -0,0 +1,356 @@
+import path from 'node:path';
+
+import { Uri, workspace } from 'vscode';
+import { parseDocument } from 'yaml';
+
+import { logger } from './logger.js';
+
+import type { TResult } from './constants.js';
+
+enum ProtolintConfigErrorCode {
+  Parse = 'CONFIG_PARSE_FAILED',
+  Read = 'CONFIG_READ_FAILED',
+}
+
+/**
+ * `lint.ignores` entry of `protolint` config: the rule is not applied to the
+ * files.
+ */
+interface IConfigIgnore {
+  files: string[];
+  id: string;
+}
+
+/**
+ * `protolint` config settings applicable to one file.
+ */
+interface IFileConfig {
+  /**
+   * `true` if the file is excluded from linting.
+   */
+  excluded: boolean;
+
+  /**
+   * The rules which are not applied to the file.
+   */
+  ignoredRules: ReadonlySet<string>;
+}
+
+/**
+ * `protolint` config settings selecting the files to lint.
+ *
+ * {@link https://github.com/yoheimuta/protolint/blob/v0.50.0/_example/config/.protolint.yaml}
+ */
+interface IProtolintConfig {
+  /**
+   * `lint.directories.exclude` entries.
+   */
+  excludedDirectories: string[];
+
+  /**
+   * `lint.files.exclude` entries.
+   */
+  excludedFiles: string[];
+  ignores: IConfigIgnore[];
+}
+
+interface IProtolintConfigError {
+  code: ProtolintConfigErrorCode;
+  details?: Error;
+}
+
+/**
+ * File config for the files which aren't excluded and have no rules ignored.
+ */
+const DEFAULT_FILE_CONFIG: IFileConfig = {
+  excluded: false,
+  ignoredRules: new Set(),
+};
+
+/**
+ * Creates `protolint` config text applying only the selected rules. The other
+ * settings, e.g. `lint.rules_option`, are kept from the original config.
+ *
+ * The text is JSON, which is valid YAML for `protolint`.
+ *
+ * @param configPath The original config file path, if any.
+ * @param rules The rule IDs to apply.
+ */
+async function deriveRulesConfig(
+  configPath: string | undefined,
+  rules: readonly string[],
+): Promise<TResult<string, IProtolintConfigError>> {
+  let config: unknown = {};
+
+  if (configPath !== undefined && configPath) {
+    const parse = await readConfigYaml(configPath);
+
+    if (parse.result === 'error') {
+      return parse;
+    }
+
+    config = parse.value;
+  }
+
+  return {
+    result: 'success',
+    value: JSON.stringify(withRules(config, rules)),
+  };
+}
+
+/**
+ * Gets the file path as `protolint` config entries refer to it: relative to
+ * the Workspace Folder root, with `/` separators.
+ *
+ * @param uri The file URI.
+ */
+function getDisplayPath(uri: Uri): string {
+  const cwd =
+    workspace.getWorkspaceFolder(uri)?.uri.fsPath ?? path.dirname(uri.fsPath);
+
+  return toUnixPath(path.relative(cwd, uri.fsPath));
+}
+
+/**
+ * Gets `protolint` config settings for the document.
+ *
+ * `protolint` matches the excluded and ignored paths against the linted file
+ * path relative to CWD. Documents reflected via `DocumentMirror` are linted
+ * in the temporary directory, so the settings are evaluated against the
+ * original document path here.
+ *
+ * @param uri The document URI.
+ * @param configPath `protolint` config file path for the document.
+ */
+async function getFileConfig(
+  uri: Uri,
+  configPath: string | undefined,
+): Promise<IFileConfig> {
+  if (configPath === undefined || uri.scheme !== 'file') {
+    return DEFAULT_FILE_CONFIG;
+  }
+
+  const config = await readProtolintConfig(configPath);
+
+  if (config.result === 'error') {
+    logger.warn(
+      `[Protolint config] Failed reading '${configPath}'. Details:`,
+      config.error,
+    );
+
+    return DEFAULT_FILE_CONFIG;
+  }
+
+  const { excludedDirectories, excludedFiles, ignores } = config.value;
+  const displayPath = getDisplayPath(uri);
+
+  return {
+    excluded:
+      excludedDirectories.some((directory) =>
+        isInDirectory(displayPath, directory),
+      ) || excludedFiles.some((file) => isSameFile(displayPath, file)),
+    ignoredRules: new Set(
+      ignores
+        .filter(({ files }) =>
+          files.some((file) => isSameFile(displayPath, file)),
+        )
+        .map(({ id }) => id),
+    ),
+  };
+}
+
+/**
+ * Gets the nested value from the parsed YAML mapping.
+ *
+ * @param value The parsed YAML value.
+ * @param keys The mapping keys leading to the nested value.
+ */
+function getNested(value: unknown, ...keys: string[]): unknown {
+  let nested = value;
+
+  for (const key of keys) {
+    if (!isMapping(nested) || !Object.hasOwn(nested, key)) {
+      return;
+    }
+
+    nested = nested[key];
+  }
+
+  return nested;
+}
+
+/**
+ * Checks whether the file is in the directory or its subdirectories.
+ *
+ * @param displayPath The file path, see {@link getDisplayPath}.
+ * @param directory The directory path as written in `protolint` config, e.g.
+ * `vendor`, `./vendor` or `vendor/`.
+ */
+function isInDirectory(displayPath: string, directory: string): boolean {
+  const normalized = normalizePath(directory);
+
+  return displayPath === normalized || displayPath.startsWith(`${normalized}/`);
+}
+
+/**
+ * Checks whether the parsed YAML value is a mapping.
+ */
+function isMapping(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Checks whether the file path from `protolint` config refers to the file.
+ *
+ * @param displayPath The file path, see {@link getDisplayPath}.
+ * @param file The file path as written in `protolint` config, e.g.
+ * `vendor/a.proto` or `./vendor/a.proto`.
+ */
+function isSameFile(displayPath: string, file: string): boolean {
+  return displayPath === normalizePath(file);
+}
+
+/**
+ * Normalizes the path from `protolint` config, so that it can be compared
+ * with {@link getDisplayPath} result: `.` segments, repeated and trailing
+ * separators are removed.
+ */
+function normalizePath(value: string): string {
+  return path.posix.normalize(toUnixPath(value)).replace(/\/$/, '');
+}
+
+/**
+ * Reads and parses `protolint` config file.
+ *
+ * @param configPath The config file path.
+ */
+async function readConfigYaml(
+  configPath: string,
+): Promise<TResult<unknown, IProtolintConfigError>> {
+  let text;
+
+  try {
+    text = new TextDecoder().decode(
+      await workspace.fs.readFile(Uri.file(configPath)),
+    );
+  } catch (error) {
+    return {
+      error: {
+        code: ProtolintConfigErrorCode.Read,
+        ...(error instanceof Error && { details: error }),
+      },
+      result: 'error',
+    };
+  }
+
+  const document = parseDocument(text);
+  const [parseError] = document.errors;
+
+  if (parseError !== undefined) {
+    return {
+      error: { code: ProtolintConfigErrorCode.Parse, details: parseError },
+      result: 'error',
+    };
+  }
+
+  try {
+    return { result: 'success', value: document.toJS() as unknown };
+  } catch (error) {
+    return {
+      error: {
+        code: ProtolintConfigErrorCode.Parse,
+        ...(error instanceof Error && { details: error }),
+      },
+      result: 'error',
+    };
+  }
+}
+
+/**
+ * Reads and parses `protolint` config file. Invalid or unknown entries are
+ * skipped.
+ *
+ * @param configPath The config file path.
+ */
+async function readProtolintConfig(
+  configPath: string,
+): Promise<TResult<IProtolintConfig, IProtolintConfigError>> {
+  const parse = await readConfigYaml(configPath);
+
+  if (parse.result === 'error') {
+    return parse;
+  }
+
+  const ignores = getNested(parse.value, 'lint', 'ignores');
+
+  return {
+    result: 'success',
+    value: {
+      excludedDirectories: toStrings(
+        getNested(parse.value, 'lint', 'directories', 'exclude'),
+      ),
+      excludedFiles: toStrings(
+        getNested(parse.value, 'lint', 'files', 'exclude'),
+      ),
+      ignores: Array.isArray(ignores)
+        ? ignores.flatMap((ignore) => {
+            const id = getNested(ignore, 'id');
+
+            return typeof id === 'string'
+              ? [{ files: toStrings(getNested(ignore, 'files')), id }]
+              : [];
+          })
+        : [],
+    },
+  };
+}
+
+/**
+ * Picks the scalar items from the parsed YAML sequence as strings.
+ */
+function toStrings(value: unknown): string[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value.flatMap((item) =>
+    typeof item === 'string' || typeof item === 'number' ? [String(item)] : [],
+  );
+}
+
+/**
+ * Converts the path to use `/` separators, as `protolint` does for matching.
+ */
+function toUnixPath(value: string): string {
+  return value.replaceAll('\\', '/');
+}
+
+/**
+ * Replaces `lint.rules` of the parsed config, so that only the rules are
+ * applied.
+ *
+ * @param config The parsed config.
+ * @param rules The rule IDs to apply.
+ */
+function withRules(
+  config: unknown,
+  rules: readonly string[],
+): Record<string, unknown> {
+  const lint = getNested(config, 'lint');
+
+  return {
+    ...(isMapping(config) && config),
+    lint: {
+      ...(isMapping(lint) && lint),
+      rules: { add: [...rules], no_default: true },
+    },
+  };
+}
+
+export type { IFileConfig, IProtolintConfig };
+export {
+  deriveRulesConfig,
+  getDisplayPath,
+  getFileConfig,
+  readProtolintConfig,
+};
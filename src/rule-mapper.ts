@@ -1,8 +1,13 @@
+import path from 'node:path';
+
 import {
   CodeAction,
   CodeActionKind,
   Diagnostic,
-  DiagnosticSeverity,
+  DiagnosticRelatedInformation,
+  EndOfLine,
+  Location,
+  Position,
   Range,
   Uri,
   WorkspaceEdit,
@@ -13,13 +18,22 @@ import {
   EDITOR_COMMAND_FIX_INDENTS,
   PROTOLINT_RULES_URI,
 } from './constants.js';
+import { renumberFieldsEdits, reorderFieldsEdits } from './field-numbers.js';
+import { FileRenameAction } from './file-rename.js';
+import { groupToMessageEdit } from './group-converter.js';
+import { importGroupRange, organizeImportsEdits } from './import-sorter.js';
 import { TokenKind, TokenMap } from './protobuf-parser.js';
+import { parseStatements, reorderStatements } from './protobuf-statements.js';
+import { DEFAULT_SEVERITY, resolveSeverity } from './severity.js';
+import { diffEdits } from './text-diff.js';
+import { TypeRenameAction } from './type-rename.js';
 
-import type { TextDocument } from 'vscode';
+import type { TextDocument, TextEdit } from 'vscode';
 
 import type { TResult } from './constants.js';
 import type { IJsonLintsItem } from './json-report-parser.js';
 import type { LookupErrorCode } from './protobuf-parser.js';
+import type { ITypeRename } from './type-rename.js';
 
 const RANGE_KEY = 'wrong';
 const FIX_KEY = 'fix';
@@ -76,6 +90,11 @@ type TParsedMessage = Record<string, string>;
 
 /**
  * `protolint` diagnostic for VS Code.
+ *
+ * The severity follows `protolint.severity` setting. Check the rule with
+ * {@link resolveSeverity} before creating the diagnostic, if the rule may be
+ * turned off. The rule description, if reported, is shown as the related
+ * information.
  */
 class ProtolintDiagnostic extends Diagnostic {
   public readonly error: IJsonLintsItem;
@@ -85,15 +104,28 @@ class ProtolintDiagnostic extends Diagnostic {
   constructor(document: TextDocument, error: IJsonLintsItem) {
     const { parsedMessage, range } = diagnosticBase(document, error);
 
-    super(range, error.message, DiagnosticSeverity.Warning);
+    super(
+      range,
+      error.message,
+      resolveSeverity(document, error) ?? DEFAULT_SEVERITY,
+    );
 
     this.source = DIAGNOSTIC_SOURCE;
     this.code = {
-      target: Uri.parse(PROTOLINT_RULES_URI),
+      target: Uri.parse(error.helpUri ?? PROTOLINT_RULES_URI),
       value: error.rule,
     };
     this.error = error;
     this.parsedMessage = parsedMessage;
+
+    if (error.description !== undefined) {
+      this.relatedInformation = [
+        new DiagnosticRelatedInformation(
+          new Location(document.uri, range),
+          `${error.rule}: ${error.description}`,
+        ),
+      ];
+    }
   }
 }
 
@@ -105,6 +137,31 @@ function defaultRange(document: TextDocument, { line }: IJsonLintsItem): Range {
   }
 }
 
+/**
+ * The rules `protolint lint -fix` can correct.
+ *
+ * {@link https://github.com/yoheimuta/protolint/blob/v0.55.4/README.md#rules}
+ */
+const FIXABLE_RULES: ReadonlySet<string> = new Set([
+  'ENUM_FIELD_NAMES_PREFIX',
+  'ENUM_FIELD_NAMES_UPPER_SNAKE_CASE',
+  'ENUM_FIELD_NAMES_ZERO_VALUE_END_WITH',
+  'ENUM_NAMES_UPPER_CAMEL_CASE',
+  'FIELD_NAMES_LOWER_SNAKE_CASE',
+  'FILE_NAMES_LOWER_SNAKE_CASE',
+  'IMPORTS_SORTED',
+  'INDENT',
+  'MESSAGE_NAMES_UPPER_CAMEL_CASE',
+  'ORDER',
+  'PACKAGE_NAME_LOWER_CASE',
+  'PROTO3_FIELDS_AVOID_REQUIRED',
+  'PROTO3_GROUPS_AVOID',
+  'QUOTE_CONSISTENT',
+  'REPEATED_FIELD_NAMES_PLURALIZED',
+  'RPC_NAMES_UPPER_CAMEL_CASE',
+  'SERVICE_NAMES_UPPER_CAMEL_CASE',
+]);
+
 const PROTOLINT_QUICK_FIX = CodeActionKind.QuickFix.append('protolint');
 
 const tokenRange: TDiagnosticRangeParser = function (
@@ -164,6 +221,41 @@ const indent: TDiagnosticRangeParser = function (document, item) {
   }
 };
 
+/**
+ * Inserts a comment stub above the declaration. If `protolint` asks for the
+ * Go style comment, i.e. `should_follow_golang_style` option is set, the stub
+ * is inserted above the existing leading comments, as the Go style comment
+ * must come first.
+ */
+const commentActions: TCodeActionsBuilder = function (document, diagnostic) {
+  const { error, parsedMessage } = diagnostic;
+  const { line } = document.validatePosition(new Position(error.line - 1, 0));
+  const golangStyle = parsedMessage[FIX_KEY];
+  const stub =
+    golangStyle ??
+    `// ${parsedMessage[RANGE_KEY] ?? path.posix.basename(document.uri.path)} ...`;
+  const target = document.lineAt(
+    golangStyle === undefined ? line : leadingCommentLine(document, line),
+  );
+  const indentation = target.text.slice(
+    0,
+    target.firstNonWhitespaceCharacterIndex,
+  );
+  const eol = document.eol === EndOfLine.CRLF ? '\r\n' : '\n';
+  const action = new CodeAction(`Add '${stub}' comment`, PROTOLINT_QUICK_FIX);
+
+  action.isPreferred = true;
+  action.edit = new WorkspaceEdit();
+  action.edit.insert(
+    document.uri,
+    target.range.start,
+    `${indentation}${stub}${eol}`,
+  );
+  action.diagnostics = [diagnostic];
+
+  return { result: 'success', value: [action] };
+};
+
 const indentActions: TCodeActionsBuilder = function ({ uri }, diagnostic) {
   const value: CodeAction[] = [];
 
@@ -194,6 +286,138 @@ const indentActions: TCodeActionsBuilder = function ({ uri }, diagnostic) {
   return { result: 'success', value };
 };
 
+const importGroup: TDiagnosticRangeParser = function (document, item) {
+  const range = importGroupRange(document, item.line - 1);
+
+  if (range === undefined) {
+    return {
+      error: { code: ParseRangeErrorCode.ItemLine, item },
+      result: 'error',
+    };
+  }
+
+  return { result: 'success', value: range };
+};
+
+/**
+ * Sorts all `import` groups of the document, as `protolint` reports each
+ * unsorted import separately.
+ */
+const organizeImportsActions: TCodeActionsBuilder = function (
+  document,
+  diagnostic,
+) {
+  const edits = organizeImportsEdits(document);
+
+  if (edits.length === 0) {
+    return { result: 'success', value: [] };
+  }
+
+  const action = new CodeAction('Organize imports', PROTOLINT_QUICK_FIX);
+
+  action.isPreferred = true;
+  action.edit = new WorkspaceEdit();
+  action.edit.set(document.uri, edits);
+  action.diagnostics = [diagnostic];
+
+  return { result: 'success', value: [action] };
+};
+
+/**
+ * Finds the top-level statement `protolint` reports as out of order.
+ */
+const statementRange: TDiagnosticRangeParser = function (document, item) {
+  const offset = document.offsetAt(
+    new Position(item.line - 1, item.column - 1),
+  );
+  const statement = parseStatements(document.getText()).find(
+    ({ start, statementEnd }) => start <= offset && offset < statementEnd,
+  );
+
+  if (statement === undefined) {
+    return {
+      error: { code: ParseRangeErrorCode.ItemLine, item },
+      result: 'error',
+    };
+  }
+
+  return {
+    result: 'success',
+    value: new Range(
+      document.positionAt(statement.start),
+      document.positionAt(statement.statementEnd),
+    ),
+  };
+};
+
+/**
+ * Moves all top-level statements of the document into the required order, as
+ * `protolint` may report several statements for one misplaced block.
+ */
+const orderActions: TCodeActionsBuilder = function (document, diagnostic) {
+  const text = document.getText();
+  const reordered = reorderStatements(text);
+
+  if (reordered === text) {
+    return { result: 'success', value: [] };
+  }
+
+  const action = new CodeAction(
+    'Reorder top-level statements',
+    PROTOLINT_QUICK_FIX,
+  );
+
+  action.isPreferred = true;
+  action.edit = new WorkspaceEdit();
+  action.edit.set(document.uri, diffEdits(document, reordered));
+  action.diagnostics = [diagnostic];
+
+  return { result: 'success', value: [action] };
+};
+
+/**
+ * Reorders the fields of the message by number, or renumbers them. The latter
+ * isn't preferred, as it changes the wire format of the message.
+ */
+const fieldNumberActions: TCodeActionsBuilder = function (
+  document,
+  diagnostic,
+) {
+  const offset = document.offsetAt(diagnostic.range.start);
+  const value: CodeAction[] = [];
+  const reorderEdits = reorderFieldsEdits(document, offset);
+  const renumberEdits = renumberFieldsEdits(document, offset);
+
+  if (reorderEdits.length > 0) {
+    const reorder = new CodeAction(
+      'Reorder fields by number',
+      PROTOLINT_QUICK_FIX,
+    );
+
+    reorder.isPreferred = true;
+    reorder.edit = new WorkspaceEdit();
+    reorder.edit.set(document.uri, reorderEdits);
+    reorder.diagnostics = [diagnostic];
+
+    value.push(reorder);
+  }
+
+  if (renumberEdits.length > 0) {
+    const renumber = new CodeAction(
+      'Renumber fields sequentially (breaks the wire format)',
+      PROTOLINT_QUICK_FIX,
+    );
+
+    renumber.edit = new WorkspaceEdit();
+    renumber.edit.set(document.uri, renumberEdits);
+    renumber.diagnostics = [diagnostic];
+
+    value.push(renumber);
+  }
+
+  return { result: 'success', value };
+};
+
 const lineLength: TDiagnosticRangeParser = function (
   document,
   item,
@@ -278,6 +502,32 @@ const tokenNameActions: TCodeActionsBuilder = function ({ uri }, diagnostic) {
   };
 };
 
+/**
+ * Renames the message or enum together with the references to it. The edit is
+ * computed when the action is resolved.
+ */
+const typeNameActions: TCodeActionsBuilder = function (document, diagnostic) {
+  const { error, parsedMessage, range } = diagnostic;
+
+  if (parsedMessage[FIX_KEY] !== undefined) {
+    const action = new TypeRenameAction(
+      `Set to '${parsedMessage[FIX_KEY]}'`,
+      PROTOLINT_QUICK_FIX,
+      [{ document, name: parsedMessage[FIX_KEY], range }],
+    );
+
+    action.isPreferred = true;
+    action.diagnostics = [diagnostic];
+
+    return { result: 'success', value: [action] };
+  }
+
+  return {
+    error: { code: CodeActionErrorCode.ParsedMessage, item: error },
+    result: 'error',
+  };
+};
+
 const enumZeroActions: TCodeActionsBuilder = function ({ uri }, diagnostic) {
   const {
     error,
@@ -306,21 +556,24 @@ const enumZeroActions: TCodeActionsBuilder = function ({ uri }, diagnostic) {
   };
 };
 
-const fileNameActions: TCodeActionsBuilder = function ({ uri }, diagnostic) {
+/**
+ * Renames the file and updates the imports of it. The edit is computed when
+ * the action is resolved.
+ */
+const fileNameActions: TCodeActionsBuilder = function (document, diagnostic) {
   const { error, parsedMessage } = diagnostic;
 
   if (parsedMessage[FIX_KEY] !== undefined) {
-    const action = new CodeAction(
+    const action = new FileRenameAction(
       `Rename the file to '${parsedMessage[FIX_KEY]}'`,
       PROTOLINT_QUICK_FIX,
+      {
+        document,
+        uri: Uri.joinPath(document.uri, '..', parsedMessage[FIX_KEY]),
+      },
     );
 
     action.isPreferred = true;
-    action.edit = new WorkspaceEdit();
-
-    const fixedUri: Uri = Uri.joinPath(uri, '..', parsedMessage[FIX_KEY]);
-
-    action.edit.renameFile(uri, fixedUri, { overwrite: false });
     action.diagnostics = [diagnostic];
 
     return { result: 'success', value: [action] };
@@ -344,6 +597,32 @@ const requiredActions: TCodeActionsBuilder = function ({ uri }, diagnostic) {
   return { result: 'success', value: [action] };
 };
 
+/**
+ * Replaces the group field with a nested message and a field of its type.
+ */
+const groupActions: TCodeActionsBuilder = function (document, diagnostic) {
+  const edit = groupToMessageEdit(
+    document,
+    document.offsetAt(diagnostic.range.start),
+  );
+
+  if (edit === undefined) {
+    return { result: 'success', value: [] };
+  }
+
+  const action = new CodeAction(
+    'Convert the group to a nested message',
+    PROTOLINT_QUICK_FIX,
+  );
+
+  action.isPreferred = true;
+  action.edit = new WorkspaceEdit();
+  action.edit.set(document.uri, [edit]);
+  action.diagnostics = [diagnostic];
+
+  return { result: 'success', value: [action] };
+};
+
 const serviceSuffixActions: TCodeActionsBuilder = function (
   { uri },
   diagnostic,
@@ -412,10 +691,22 @@ const RULE_MAP: ReadonlyMap<string, IMapper> = new Map<string, IMapper>([
       tokenKind: TokenKind.EnumValueName,
     },
   ],
+  [
+    'ENUM_FIELDS_HAVE_COMMENT',
+    {
+      codeActions: commentActions,
+      diagnosticBase: tokenRange,
+      /** @see https://github.com/yoheimuta/protolint/blob/v0.43.2/internal/addon/rules/enumFieldsHaveCommentRule.go */
+      pattern: new RegExp(
+        `^EnumField "(?<${RANGE_KEY}>.+)" should have a comment(?: of the form "(?<${FIX_KEY}>.+)")?$`,
+      ),
+      tokenKind: TokenKind.EnumValueName,
+    },
+  ],
   [
     'ENUM_NAMES_UPPER_CAMEL_CASE',
     {
-      codeActions: tokenNameActions,
+      codeActions: typeNameActions,
       diagnosticBase: tokenRange,
       /** @see https://github.com/yoheimuta/protolint/blob/v0.43.2/internal/addon/rules/enumNamesUpperCamelCaseRule.go#L72 */
       pattern: new RegExp(
@@ -424,6 +715,18 @@ const RULE_MAP: ReadonlyMap<string, IMapper> = new Map<string, IMapper>([
       tokenKind: TokenKind.EnumName,
     },
   ],
+  [
+    'ENUMS_HAVE_COMMENT',
+    {
+      codeActions: commentActions,
+      diagnosticBase: tokenRange,
+      /** @see https://github.com/yoheimuta/protolint/blob/v0.43.2/internal/addon/rules/enumsHaveCommentRule.go */
+      pattern: new RegExp(
+        `^Enum "(?<${RANGE_KEY}>.+)" should have a comment(?: of the form "(?<${FIX_KEY}>.+)")?$`,
+      ),
+      tokenKind: TokenKind.EnumName,
+    },
+  ],
   [
     'FIELD_NAMES_EXCLUDE_PREPOSITIONS',
     {
@@ -447,6 +750,35 @@ const RULE_MAP: ReadonlyMap<string, IMapper> = new Map<string, IMapper>([
       tokenKind: TokenKind.FieldName,
     },
   ],
+  [
+    'FIELD_NUMBERS_ORDER_ASCENDING',
+    {
+      codeActions: fieldNumberActions,
+      diagnosticBase: tokenRange,
+      /** @see https://github.com/yoheimuta/protolint/blob/v0.43.2/internal/addon/rules/fieldNumbersOrderAscendingRule.go */
+      tokenKind: TokenKind.FieldNumber,
+    },
+  ],
+  [
+    'FIELDS_HAVE_COMMENT',
+    {
+      codeActions: commentActions,
+      diagnosticBase: tokenRange,
+      /** @see https://github.com/yoheimuta/protolint/blob/v0.43.2/internal/addon/rules/fieldsHaveCommentRule.go */
+      pattern: new RegExp(
+        `^Field "(?<${RANGE_KEY}>.+)" should have a comment(?: of the form "(?<${FIX_KEY}>.+)")?$`,
+      ),
+      tokenKind: TokenKind.FieldName,
+    },
+  ],
+  [
+    'FILE_HAS_COMMENT',
+    {
+      codeActions: commentActions,
+      /** @see https://github.com/yoheimuta/protolint/blob/v0.43.2/internal/addon/rules/fileHasCommentRule.go */
+      pattern: /^File should have a comment$/,
+    },
+  ],
   [
     'FILE_NAMES_LOWER_SNAKE_CASE',
     {
@@ -457,6 +789,13 @@ const RULE_MAP: ReadonlyMap<string, IMapper> = new Map<string, IMapper>([
       ),
     },
   ],
+  [
+    'IMPORTS_SORTED',
+    {
+      codeActions: organizeImportsActions,
+      diagnosticBase: importGroup,
+    },
+  ],
   [
     'INDENT',
     {
@@ -494,7 +833,7 @@ const RULE_MAP: ReadonlyMap<string, IMapper> = new Map<string, IMapper>([
   [
     'MESSAGE_NAMES_UPPER_CAMEL_CASE',
     {
-      codeActions: tokenNameActions,
+      codeActions: typeNameActions,
       diagnosticBase: tokenRange,
       /** @see https://github.com/yoheimuta/protolint/blob/v0.43.2/internal/addon/rules/messageNamesUpperCamelCaseRule.go#L72 */
       pattern: new RegExp(
@@ -503,6 +842,25 @@ const RULE_MAP: ReadonlyMap<string, IMapper> = new Map<string, IMapper>([
       tokenKind: TokenKind.MessageName,
     },
   ],
+  [
+    'MESSAGES_HAVE_COMMENT',
+    {
+      codeActions: commentActions,
+      diagnosticBase: tokenRange,
+      /** @see https://github.com/yoheimuta/protolint/blob/v0.43.2/internal/addon/rules/messagesHaveCommentRule.go */
+      pattern: new RegExp(
+        `^Message "(?<${RANGE_KEY}>.+)" should have a comment(?: of the form "(?<${FIX_KEY}>.+)")?$`,
+      ),
+      tokenKind: TokenKind.MessageName,
+    },
+  ],
+  [
+    'ORDER',
+    {
+      codeActions: orderActions,
+      diagnosticBase: statementRange,
+    },
+  ],
   [
     'PACKAGE_NAME_LOWER_CASE',
     {
@@ -524,6 +882,15 @@ const RULE_MAP: ReadonlyMap<string, IMapper> = new Map<string, IMapper>([
       tokenKind: TokenKind.Required,
     },
   ],
+  [
+    'PROTO3_GROUPS_AVOID',
+    {
+      codeActions: groupActions,
+      diagnosticBase: tokenRange,
+      /** @see https://github.com/yoheimuta/protolint/blob/v0.43.2/internal/addon/rules/proto3GroupsAvoidRule.go */
+      tokenKind: TokenKind.Group,
+    },
+  ],
   [
     'QUOTE_CONSISTENT',
     {
@@ -569,6 +936,18 @@ const RULE_MAP: ReadonlyMap<string, IMapper> = new Map<string, IMapper>([
       tokenKind: TokenKind.RpcName,
     },
   ],
+  [
+    'RPCS_HAVE_COMMENT',
+    {
+      codeActions: commentActions,
+      diagnosticBase: tokenRange,
+      /** @see https://github.com/yoheimuta/protolint/blob/v0.43.2/internal/addon/rules/rpcsHaveCommentRule.go */
+      pattern: new RegExp(
+        `^RPC "(?<${RANGE_KEY}>.+)" should have a comment(?: of the form "(?<${FIX_KEY}>.+)")?$`,
+      ),
+      tokenKind: TokenKind.RpcName,
+    },
+  ],
   [
     'SERVICE_NAMES_END_WITH',
     {
@@ -593,6 +972,18 @@ const RULE_MAP: ReadonlyMap<string, IMapper> = new Map<string, IMapper>([
       tokenKind: TokenKind.ServiceName,
     },
   ],
+  [
+    'SERVICES_HAVE_COMMENT',
+    {
+      codeActions: commentActions,
+      diagnosticBase: tokenRange,
+      /** @see https://github.com/yoheimuta/protolint/blob/v0.43.2/internal/addon/rules/servicesHaveCommentRule.go */
+      pattern: new RegExp(
+        `^Service "(?<${RANGE_KEY}>.+)" should have a comment(?: of the form "(?<${FIX_KEY}>.+)")?$`,
+      ),
+      tokenKind: TokenKind.ServiceName,
+    },
+  ],
 ]);
 
 /**
@@ -637,11 +1028,169 @@ function diagnosticBase(
     }
   }
 
-  range ??= defaultRange(document, item);
+  range ??= reportedRange(document, item) ?? defaultRange(document, item);
 
   return { parsedMessage, range };
 }
 
+/**
+ * Creates the quick fix applying the preferred rule fix to all rule problems
+ * in the document at once. The type renames are combined into a single lazily
+ * resolved rename, so the references to all renamed types are updated too.
+ *
+ * @param document The target document.
+ * @param rule The rule ID to fix.
+ * @param diagnostics The document diagnostics.
+ * @returns The code action, or nothing if less than two problems of the rule
+ * have a fix.
+ */
+function fixAllActions(
+  document: TextDocument,
+  rule: string,
+  diagnostics: readonly ProtolintDiagnostic[],
+): CodeAction[] {
+  const fixed: ProtolintDiagnostic[] = [];
+  const edits: TextEdit[] = [];
+  const renames: ITypeRename[] = [];
+
+  for (const diagnostic of diagnostics) {
+    if (diagnostic.error.rule !== rule) {
+      continue;
+    }
+
+    const fix = codeActions(document, diagnostic).find(
+      ({ isPreferred }) => isPreferred === true,
+    );
+
+    if (fix instanceof TypeRenameAction) {
+      fixed.push(diagnostic);
+      renames.push(...fix.renames);
+      continue;
+    }
+
+    const fixEdits = fix?.edit?.get(document.uri) ?? [];
+
+    if (fixEdits.length > 0) {
+      fixed.push(diagnostic);
+      edits.push(...fixEdits);
+    }
+  }
+
+  if (fixed.length < 2) {
+    return [];
+  }
+
+  const title = `Fix all ${rule} problems in this file`;
+  let action: CodeAction;
+
+  if (renames.length > 0) {
+    action = new TypeRenameAction(title, PROTOLINT_QUICK_FIX, renames);
+  } else {
+    action = new CodeAction(title, PROTOLINT_QUICK_FIX);
+    action.edit = new WorkspaceEdit();
+    action.edit.set(document.uri, mergeEdits(edits));
+  }
+
+  action.diagnostics = fixed;
+
+  return [action];
+}
+
+/**
+ * Finds the first line of the comments right above the declaration line. The
+ * comments separated by a blank line aren't taken into account.
+ *
+ * @param document The target document.
+ * @param line The zero-based declaration line.
+ * @returns The zero-based line of the first leading comment, or the
+ * declaration line if there are no leading comments.
+ */
+function leadingCommentLine(document: TextDocument, line: number): number {
+  const comments = new TokenMap(document).comments();
+
+  if (comments.result === 'error') {
+    return line;
+  }
+
+  let first = line;
+
+  while (first > 0) {
+    const { range, text } = document.lineAt(first - 1);
+    let rest = text;
+
+    for (const comment of comments.value[first - 1] ?? []) {
+      const { end, start } = comment.range.intersection(range) ?? range;
+
+      rest =
+        rest.slice(0, start.character) +
+        ' '.repeat(end.character - start.character) +
+        rest.slice(end.character);
+    }
+
+    if (text.trim() === '' || rest.trim() !== '') {
+      break;
+    }
+
+    first--;
+  }
+
+  return first;
+}
+
+/**
+ * Sorts the edits and drops the ones overlapping the previous edits, so they
+ * can be applied together.
+ */
+function mergeEdits(edits: readonly TextEdit[]): TextEdit[] {
+  const merged: TextEdit[] = [];
+  const sorted = edits.toSorted(
+    ({ range: a }, { range: b }) =>
+      a.start.compareTo(b.start) || a.end.compareTo(b.end),
+  );
+
+  for (const edit of sorted) {
+    const previous = merged.at(-1);
+
+    if (previous === undefined || !overlaps(previous.range, edit.range)) {
+      merged.push(edit);
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Checks whether the sorted edit ranges can't be applied together. Two
+ * insertions at the same position conflict as well.
+ */
+function overlaps(previous: Range, next: Range): boolean {
+  return (
+    next.start.isBefore(previous.end) ||
+    (previous.isEmpty && next.isEmpty && next.start.isEqual(previous.start))
+  );
+}
+
+/**
+ * Gets the region `protolint` reported for the linting error. Only regions
+ * with the end column are precise enough, the others point to the start only.
+ *
+ * @returns `undefined` if the reported region is empty or unknown.
+ */
+function reportedRange(
+  document: TextDocument,
+  { column, endColumn, endLine, line }: IJsonLintsItem,
+): Range | undefined {
+  if (endColumn === undefined) {
+    return;
+  }
+
+  const range = document.validateRange(
+    new Range(line - 1, column - 1, (endLine ?? line) - 1, endColumn - 1),
+  );
+
+  return range.isEmpty ? undefined : range;
+}
+
 /**
  * For testing purposes only. Please don't use it for the extension logic.
  */
@@ -651,7 +1200,15 @@ const testing = {
   FIX_KEY,
   PROTOLINT_QUICK_FIX,
   RANGE_KEY,
+  reportedRange,
 };
 
 export type { TParsedMessage };
-export { codeActions, ProtolintDiagnostic, testing };
+export {
+  codeActions,
+  FIXABLE_RULES,
+  fixAllActions,
+  PROTOLINT_QUICK_FIX,
+  ProtolintDiagnostic,
+  testing,
+};
@@ -0,0 +1,222 @@
+import { fileURLToPath } from 'node:url';
+
+import type { TResult } from './constants.js';
+import type { IJsonLintsItem } from './json-report-parser.js';
+
+enum ParseSarifErrorCode {
+  Failed = 'SARIF_PARSE_FAILED',
+  UnexpectedSchema = 'UNEXPECTED_SARIF_SCHEMA',
+}
+
+interface IParseSarifError {
+  code: ParseSarifErrorCode;
+  error?: Error;
+}
+
+/**
+ * `reportingDescriptor` object of SARIF log describing a `protolint` rule.
+ *
+ * {@link https://docs.oasis-open.org/sarif/sarif/v2.1.0/sarif-v2.1.0.html#_Toc34317836}
+ */
+interface ISarifRule {
+  description?: string;
+  helpUri?: string;
+  id?: string;
+}
+
+type TRecord = Record<string, unknown>;
+
+/**
+ * Gets the nested value from the parsed JSON object.
+ *
+ * @param value The parsed JSON value.
+ * @param keys The object keys leading to the nested value.
+ */
+function getNested(value: unknown, ...keys: string[]): unknown {
+  let nested = value;
+
+  for (const key of keys) {
+    if (!isRecord(nested) || !Object.hasOwn(nested, key)) {
+      return;
+    }
+
+    nested = nested[key];
+  }
+
+  return nested;
+}
+
+function getNumber(value: unknown, ...keys: string[]): number | undefined {
+  const nested = getNested(value, ...keys);
+
+  return typeof nested === 'number' && Number.isInteger(nested) && nested > 0
+    ? nested
+    : undefined;
+}
+
+function getString(value: unknown, ...keys: string[]): string | undefined {
+  const nested = getNested(value, ...keys);
+
+  return typeof nested === 'string' && nested !== '' ? nested : undefined;
+}
+
+function isRecord(value: unknown): value is TRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Picks `protolint` rule metadata from `tool.driver.rules` SARIF property.
+ */
+function parseRules(rules: unknown): ISarifRule[] {
+  if (!Array.isArray(rules)) {
+    return [];
+  }
+
+  return rules.map((rule) => ({
+    description:
+      getString(rule, 'fullDescription', 'text') ??
+      getString(rule, 'shortDescription', 'text'),
+    helpUri: getString(rule, 'helpUri'),
+    id: getString(rule, 'id'),
+  }));
+}
+
+/**
+ * Parses `stderr` assuming it was obtained via `protolint lint -reporter sarif`
+ * command.
+ *
+ * The SARIF results are converted to the same linting error items as
+ * {@link https://github.com/yoheimuta/protolint/blob/v0.50.0/README.md#reporters JSON-formatted}
+ * report has, enriched with the rule metadata and the region end.
+ *
+ * @param stderr - `protolint` stderr in SARIF format
+ * @returns array of {@link IJsonLintsItem} if parsed successfully.
+ */
+function parseSarifStderr(
+  stderr: string,
+): TResult<IJsonLintsItem[], IParseSarifError> {
+  let log: unknown;
+
+  try {
+    log = JSON.parse(stderr);
+  } catch (error) {
+    return {
+      error: {
+        code: ParseSarifErrorCode.Failed,
+        ...(error instanceof Error && { error }),
+      },
+      result: 'error',
+    };
+  }
+
+  const runs = getNested(log, 'runs');
+
+  if (!Array.isArray(runs)) {
+    return {
+      error: { code: ParseSarifErrorCode.UnexpectedSchema },
+      result: 'error',
+    };
+  }
+
+  const items: IJsonLintsItem[] = [];
+
+  for (const run of runs) {
+    const rules = parseRules(getNested(run, 'tool', 'driver', 'rules'));
+    const results = getNested(run, 'results') ?? [];
+
+    if (!Array.isArray(results)) {
+      return {
+        error: { code: ParseSarifErrorCode.UnexpectedSchema },
+        result: 'error',
+      };
+    }
+
+    for (const result of results) {
+      const item = toLintsItem(result, rules);
+
+      if (item === undefined) {
+        return {
+          error: { code: ParseSarifErrorCode.UnexpectedSchema },
+          result: 'error',
+        };
+      }
+
+      items.push(item);
+    }
+  }
+
+  return { result: 'success', value: items };
+}
+
+/**
+ * Converts SARIF `artifactLocation.uri` to the file name as `protolint`
+ * reports it in JSON format.
+ */
+function toFilename(uri: string): string {
+  if (!uri.startsWith('file:')) {
+    return uri;
+  }
+
+  try {
+    return fileURLToPath(uri);
+  } catch {
+    return uri;
+  }
+}
+
+/**
+ * Converts a single SARIF result to the linting error item.
+ *
+ * @param result SARIF `result` object.
+ * @param rules `protolint` rules metadata of the run.
+ * @returns `undefined` if the result lacks the required properties.
+ */
+function toLintsItem(
+  result: unknown,
+  rules: readonly ISarifRule[],
+): IJsonLintsItem | undefined {
+  const ruleIndex = getNested(result, 'ruleIndex');
+  const resultRuleId = getString(result, 'ruleId');
+  const rule =
+    (typeof ruleIndex === 'number' ? rules[ruleIndex] : undefined) ??
+    rules.find(({ id }) => id !== undefined && id === resultRuleId);
+  const ruleId = resultRuleId ?? rule?.id;
+  const message = getString(result, 'message', 'text');
+  const locations = getNested(result, 'locations');
+  const physicalLocation = Array.isArray(locations)
+    ? getNested(locations[0], 'physicalLocation')
+    : undefined;
+  const uri = getString(physicalLocation, 'artifactLocation', 'uri');
+  const line = getNumber(physicalLocation, 'region', 'startLine');
+
+  if (
+    ruleId === undefined ||
+    message === undefined ||
+    uri === undefined ||
+    line === undefined
+  ) {
+    return;
+  }
+
+  const endLine = getNumber(physicalLocation, 'region', 'endLine');
+  const endColumn = getNumber(physicalLocation, 'region', 'endColumn');
+  // Only the level of the result is used: the rule default level would replace
+  // the extension default severity for all rules.
+  const severity = getString(result, 'level');
+
+  return {
+    column: getNumber(physicalLocation, 'region', 'startColumn') ?? 1,
+    filename: toFilename(uri),
+    line,
+    message,
+    rule: ruleId,
+    ...(rule?.description !== undefined && { description: rule.description }),
+    ...(endColumn !== undefined && { endColumn }),
+    ...(endLine !== undefined && { endLine }),
+    ...(rule?.helpUri !== undefined && { helpUri: rule.helpUri }),
+    ...(severity !== undefined && { severity }),
+  };
+}
+
+export type { IParseSarifError };
+export { ParseSarifErrorCode, parseSarifStderr };
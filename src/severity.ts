@@ -0,0 +1,103 @@
+import { DiagnosticSeverity, workspace } from 'vscode';
+
+import { CONFIG_SECTION } from './constants.js';
+
+import type { ConfigurationScope } from 'vscode';
+
+import type { IJsonLintsItem } from './json-report-parser.js';
+
+/**
+ * Rule severity configuration key in VS Code Settings.
+ */
+const CONFIG_SEVERITY_KEY = 'severity';
+/**
+ * Rule severity VS Code name.
+ */
+const CONFIG_SEVERITY_SECTION = `${CONFIG_SECTION}.${CONFIG_SEVERITY_KEY}`;
+
+/**
+ * The rule key in {@link CONFIG_SEVERITY_KEY} setting which applies to all
+ * rules without their own severity.
+ */
+const DEFAULT_RULE_KEY = '*';
+
+/**
+ * The severity for diagnostics without any severity configured.
+ */
+const DEFAULT_SEVERITY = DiagnosticSeverity.Warning;
+
+/**
+ * {@link CONFIG_SEVERITY_KEY} setting values. `off` hides the diagnostics.
+ */
+const SETTING_SEVERITY_MAP: Readonly<
+  Record<string, DiagnosticSeverity | undefined>
+> = {
+  error: DiagnosticSeverity.Error,
+  hint: DiagnosticSeverity.Hint,
+  information: DiagnosticSeverity.Information,
+  off: undefined,
+  warning: DiagnosticSeverity.Warning,
+};
+
+/**
+ * `protolint` report severity values.
+ *
+ * {@link https://github.com/yoheimuta/protolint/blob/v0.50.0/README.md#rules}
+ */
+const REPORT_SEVERITY_MAP: Readonly<Record<string, DiagnosticSeverity>> = {
+  error: DiagnosticSeverity.Error,
+  info: DiagnosticSeverity.Information,
+  note: DiagnosticSeverity.Information,
+  warning: DiagnosticSeverity.Warning,
+};
+
+/**
+ * Resolves the diagnostic severity for a `protolint` linting error.
+ *
+ * The severity is picked in the following order:
+ * 1. The rule severity in {@link CONFIG_SEVERITY_KEY} setting.
+ * 2. {@link DEFAULT_RULE_KEY} severity in {@link CONFIG_SEVERITY_KEY} setting.
+ * 3. The severity reported by `protolint` for the linting error.
+ * 4. {@link DEFAULT_SEVERITY}.
+ *
+ * @param scope The linted resource to get the setting for.
+ * @param item The linting error.
+ * @returns `undefined` if the diagnostic is turned off.
+ */
+function resolveSeverity(
+  scope: ConfigurationScope,
+  { rule, severity }: IJsonLintsItem,
+): DiagnosticSeverity | undefined {
+  const setting = workspace
+    .getConfiguration(CONFIG_SECTION, scope)
+    .get<Record<string, unknown>>(CONFIG_SEVERITY_KEY, {});
+
+  const ruleSeverity = setting[rule];
+
+  if (
+    typeof ruleSeverity === 'string' &&
+    Object.hasOwn(SETTING_SEVERITY_MAP, ruleSeverity)
+  ) {
+    return SETTING_SEVERITY_MAP[ruleSeverity];
+  }
+
+  const defaultSeverity = setting[DEFAULT_RULE_KEY];
+
+  if (
+    typeof defaultSeverity === 'string' &&
+    Object.hasOwn(SETTING_SEVERITY_MAP, defaultSeverity)
+  ) {
+    return SETTING_SEVERITY_MAP[defaultSeverity];
+  }
+
+  if (
+    severity !== undefined &&
+    Object.hasOwn(REPORT_SEVERITY_MAP, severity.toLowerCase())
+  ) {
+    return REPORT_SEVERITY_MAP[severity.toLowerCase()];
+  }
+
+  return DEFAULT_SEVERITY;
+}
+
+export { CONFIG_SEVERITY_SECTION, DEFAULT_SEVERITY, resolveSeverity };
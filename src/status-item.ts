@@ -1,4 +1,4 @@
-import { languages, LanguageStatusSeverity, window } from 'vscode';
+import { languages, LanguageStatusSeverity, window, workspace } from 'vscode';
 
 import { ExecutableCache } from './config.js';
 import {
@@ -45,6 +45,8 @@ async function unavailableMessage(executable: Executable) {
 
 const STATUS_TEXT = 'protolint';
 const STATUS_DETAIL_UNAVAILABLE = 'executable unavailable';
+const STATUS_DETAIL_RESTRICTED =
+  'workspace settings ignored in Restricted Mode';
 
 interface IStatus {
   detail: string;
@@ -56,6 +58,9 @@ const STATUS_MAP: Record<ExecuteErrorCode, IStatus> = {
     detail: 'executable access error',
     fixer: accessMessage,
   },
+  [ExecuteErrorCode.Canceled]: {
+    detail: 'linter process canceled',
+  },
   [ExecuteErrorCode.Scheme]: {
     detail: 'attempt to lint the incorrect file URI',
   },
@@ -93,6 +98,12 @@ class LanguageStatusUpdater implements Disposable {
   readonly #executableCache: ExecutableCache;
   readonly #languageStatusItem: LanguageStatusItem;
 
+  /**
+   * `true` if some workspace settings for the active document are ignored
+   * because the workspace isn't trusted.
+   */
+  #restricted = false;
+
   private constructor(
     { subscriptions: disposables }: ExtensionContext,
     executableCache: ExecutableCache,
@@ -128,6 +139,12 @@ class LanguageStatusUpdater implements Disposable {
       undefined,
       disposables,
     );
+
+    workspace.onDidGrantWorkspaceTrust(
+      () => this.#attach(window.activeTextEditor),
+      undefined,
+      disposables,
+    );
   }
 
   /**
@@ -159,7 +176,18 @@ class LanguageStatusUpdater implements Disposable {
 
   #attach(editor: TextEditor | undefined): void {
     if (editor && languages.match(PROTOBUF_SELECTOR, editor.document)) {
-      this.#listen(this.#executableCache.getExecutable(editor.document.uri));
+      const { uri } = editor.document;
+      const restricted = this.#executableCache.isRestricted(uri);
+
+      if (restricted !== this.#restricted) {
+        this.#restricted = restricted;
+
+        if (this.#executable !== undefined) {
+          this.#statusListener(this.#executable.status);
+        }
+      }
+
+      this.#listen(this.#executableCache.getExecutable(uri));
     }
   }
 
@@ -184,6 +212,17 @@ class LanguageStatusUpdater implements Disposable {
       return;
     }
 
+    if (errorCode === undefined && this.#restricted) {
+      this.#languageStatusItem.severity = LanguageStatusSeverity.Warning;
+      this.#languageStatusItem.detail = `${version}, ${STATUS_DETAIL_RESTRICTED}`;
+      this.#languageStatusItem.command = {
+        command: 'workbench.trust.manage',
+        title: 'Manage Workspace Trust',
+      };
+
+      return;
+    }
+
     if (errorCode === undefined) {
       this.#languageStatusItem.severity = LanguageStatusSeverity.Information;
       this.#languageStatusItem.detail = version;
@@ -218,4 +257,9 @@ class LanguageStatusUpdater implements Disposable {
   }
 }
 
-export { LanguageStatusUpdater, STATUS_DETAIL_UNAVAILABLE, STATUS_TEXT };
+export {
+  LanguageStatusUpdater,
+  STATUS_DETAIL_RESTRICTED,
+  STATUS_DETAIL_UNAVAILABLE,
+  STATUS_TEXT,
+};
@@ -0,0 +1,284 @@
+import { Range, TextEdit } from 'vscode';
+
+import type { TextDocument } from 'vscode';
+
+/**
+ * The maximum number of the line insertions and deletions to look for. More
+ * different texts are replaced with one change.
+ */
+const MAX_LINE_EDITS = 1000;
+
+/**
+ * The index of the main diagonal in the arrays of the furthest reaching paths.
+ */
+const DIAGONAL_OFFSET = MAX_LINE_EDITS + 1;
+
+/**
+ * A range of the original lines replaced with a range of the modified lines.
+ */
+interface IHunk {
+  /**
+   * The end of the modified lines, exclusive.
+   */
+  modifiedEnd: number;
+  modifiedStart: number;
+
+  /**
+   * The end of the original lines, exclusive.
+   */
+  originalEnd: number;
+  originalStart: number;
+}
+
+/**
+ * A replacement of the original text fragment.
+ */
+interface ITextChange {
+  /**
+   * The end offset in the original text, exclusive.
+   */
+  end: number;
+
+  /**
+   * The start offset in the original text.
+   */
+  start: number;
+
+  /**
+   * The replacement text.
+   */
+  text: string;
+}
+
+/**
+ * Walks back through the edit graph of Myers' algorithm.
+ *
+ * @param trace The furthest reaching paths before each edit.
+ * @param n The number of the original lines.
+ * @param m The number of the modified lines.
+ * @returns The matching original and modified line indexes in reverse order.
+ */
+function backtrack(
+  trace: readonly Int32Array[],
+  n: number,
+  m: number,
+): [number, number][] {
+  const matches: [number, number][] = [];
+  let [x, y] = [n, m];
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const k = x - y;
+    let [previousX, previousY] = [0, 0];
+
+    if (d > 0) {
+      const v = trace[d] ?? new Int32Array();
+      const previousK = isDownward(v, k, d) ? k + 1 : k - 1;
+
+      previousX = furthest(v, previousK);
+      previousY = previousX - previousK;
+    }
+
+    while (x > previousX && y > previousY) {
+      x--;
+      y--;
+      matches.push([x, y]);
+    }
+
+    [x, y] = [previousX, previousY];
+  }
+
+  return matches;
+}
+
+/**
+ * Computes the minimal edits turning the document text into the modified text.
+ * Unchanged lines and unchanged characters of the changed lines aren't
+ * touched, so the cursor, selections and folding are kept.
+ *
+ * @param document The document to edit.
+ * @param modified The desired document text.
+ */
+function diffEdits(document: TextDocument, modified: string): TextEdit[] {
+  return diffTexts(document.getText(), modified).map(
+    ({ end, start, text }) =>
+      new TextEdit(
+        new Range(document.positionAt(start), document.positionAt(end)),
+        text,
+      ),
+  );
+}
+
+/**
+ * Finds the changed line ranges via Myers' algorithm.
+ *
+ * @param original The original lines.
+ * @param modified The modified lines.
+ * @returns The hunks sorted by the line ranges, or `undefined` if there are
+ * more than {@link MAX_LINE_EDITS} line edits.
+ */
+function diffLines(
+  original: readonly string[],
+  modified: readonly string[],
+): IHunk[] | undefined {
+  const { length: n } = original;
+  const { length: m } = modified;
+  const trace = traceEdits(original, modified);
+
+  if (trace === undefined) {
+    return;
+  }
+
+  const matches: [number, number][] = [
+    ...backtrack(trace, n, m).toReversed(),
+    [n, m],
+  ];
+  const hunks: IHunk[] = [];
+  let [originalStart, modifiedStart] = [0, 0];
+
+  for (const [originalMatch, modifiedMatch] of matches) {
+    if (originalMatch > originalStart || modifiedMatch > modifiedStart) {
+      hunks.push({
+        modifiedEnd: modifiedMatch,
+        modifiedStart,
+        originalEnd: originalMatch,
+        originalStart,
+      });
+    }
+
+    [originalStart, modifiedStart] = [originalMatch + 1, modifiedMatch + 1];
+  }
+
+  return hunks;
+}
+
+/**
+ * Computes the line-level changes, then trims the unchanged characters at the
+ * beginning and the end of each change.
+ *
+ * @param original The original text.
+ * @param modified The modified text.
+ * @returns The changes sorted by their offsets.
+ */
+function diffTexts(original: string, modified: string): ITextChange[] {
+  if (original === modified) {
+    return [];
+  }
+
+  const originalLines = splitLines(original);
+  const modifiedLines = splitLines(modified);
+  const hunks = diffLines(originalLines, modifiedLines) ?? [
+    {
+      modifiedEnd: modifiedLines.length,
+      modifiedStart: 0,
+      originalEnd: originalLines.length,
+      originalStart: 0,
+    },
+  ];
+  const changes: ITextChange[] = [];
+  let [line, offset] = [0, 0];
+
+  for (const hunk of hunks) {
+    for (; line < hunk.originalStart; line++) {
+      offset += originalLines[line]?.length ?? 0;
+    }
+
+    const from = originalLines
+      .slice(hunk.originalStart, hunk.originalEnd)
+      .join('');
+    const to = modifiedLines
+      .slice(hunk.modifiedStart, hunk.modifiedEnd)
+      .join('');
+    const limit = Math.min(from.length, to.length);
+    let prefix = 0;
+    let suffix = 0;
+
+    while (prefix < limit && from[prefix] === to[prefix]) {
+      prefix++;
+    }
+
+    while (
+      suffix < limit - prefix &&
+      from.at(-suffix - 1) === to.at(-suffix - 1)
+    ) {
+      suffix++;
+    }
+
+    changes.push({
+      end: offset + from.length - suffix,
+      start: offset + prefix,
+      text: to.slice(prefix, to.length - suffix),
+    });
+
+    offset += from.length;
+    line = hunk.originalEnd;
+  }
+
+  return changes;
+}
+
+/**
+ * @param v The furthest reaching paths indexed by {@link DIAGONAL_OFFSET}
+ * plus the diagonal.
+ * @param k The diagonal.
+ * @returns The original line index of the furthest reaching path on the
+ * diagonal.
+ */
+function furthest(v: Int32Array, k: number): number {
+  return v[DIAGONAL_OFFSET + k] ?? 0;
+}
+
+/**
+ * Checks whether the furthest reaching path to the diagonal comes from the
+ * diagonal above, i.e. via a line insertion.
+ */
+function isDownward(v: Int32Array, k: number, d: number): boolean {
+  return k === -d || (k !== d && furthest(v, k - 1) < furthest(v, k + 1));
+}
+
+/**
+ * Splits the text into lines keeping the line breaks.
+ */
+function splitLines(text: string): string[] {
+  return text.split(/(?<=\n)/).filter((line) => line !== '');
+}
+
+/**
+ * Searches the shortest edit script of Myers' algorithm.
+ *
+ * @param original The original lines.
+ * @param modified The modified lines.
+ * @returns The furthest reaching paths before each edit, or `undefined` if
+ * there are more than {@link MAX_LINE_EDITS} line edits.
+ */
+function traceEdits(
+  original: readonly string[],
+  modified: readonly string[],
+): Int32Array[] | undefined {
+  const { length: n } = original;
+  const { length: m } = modified;
+  const max = Math.min(n + m, MAX_LINE_EDITS);
+  const v = new Int32Array(2 * DIAGONAL_OFFSET + 1);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(Int32Array.from(v));
+
+    for (let k = -d; k <= d; k += 2) {
+      let x = isDownward(v, k, d) ? furthest(v, k + 1) : furthest(v, k - 1) + 1;
+      let y = x - k;
+
+      while (x < n && y < m && original[x] === modified[y]) {
+        x++;
+        y++;
+      }
+
+      v[DIAGONAL_OFFSET + k] = x;
+
+      if (x >= n && y >= m) {
+        return trace;
+      }
+    }
+  }
+}
+
+export { diffEdits, diffTexts };
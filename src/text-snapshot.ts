@@ -0,0 +1,207 @@
+import { EndOfLine, Position, Range, workspace } from 'vscode';
+
+import { SUPPORTED_LANGUAGE_ID } from './constants.js';
+
+import type { TextDocument, TextLine, Uri } from 'vscode';
+
+/**
+ * A simplified word pattern VS Code uses when a language doesn't define its
+ * own.
+ */
+const DEFAULT_WORD_PATTERN = /[^`~!@#$%^&*()\-=+[{\]}\\|;:'",.<>/?\s]+/g;
+
+/**
+ * A read-only {@link TextDocument} for a file text that isn't opened in VS
+ * Code.
+ *
+ * Opening a document via {@link workspace.openTextDocument} fires document
+ * events and keeps the document in memory. Use {@link TextSnapshot} instead
+ * when only ranges for `protolint` reports are needed, e.g. for files on disk.
+ */
+class TextSnapshot implements TextDocument {
+  readonly encoding = 'utf8';
+  readonly eol: EndOfLine;
+  readonly fileName: string;
+  readonly isClosed = true;
+  readonly isDirty = false;
+  readonly isUntitled = false;
+  readonly languageId = SUPPORTED_LANGUAGE_ID;
+  readonly uri: Uri;
+  readonly version = 0;
+
+  get lineCount(): number {
+    return this.#lines.length;
+  }
+
+  /**
+   * Zero-based offsets of the line starts.
+   */
+  readonly #lineOffsets: number[] = [];
+
+  /**
+   * Line texts without line breaks.
+   */
+  readonly #lines: string[] = [];
+
+  readonly #text: string;
+
+  /**
+   * @param uri The URI of the file the text belongs to.
+   * @param text The file text.
+   */
+  constructor(uri: Uri, text: string) {
+    this.uri = uri;
+    this.fileName = uri.fsPath;
+    this.#text = text;
+    this.eol = text.includes('\r\n') ? EndOfLine.CRLF : EndOfLine.LF;
+
+    const lineBreak = /\r\n|\r|\n/g;
+    let lineStart = 0;
+
+    for (const { 0: separator, index } of text.matchAll(lineBreak)) {
+      this.#lines.push(text.slice(lineStart, index));
+      this.#lineOffsets.push(lineStart);
+      lineStart = index + separator.length;
+    }
+
+    this.#lines.push(text.slice(lineStart));
+    this.#lineOffsets.push(lineStart);
+  }
+
+  /**
+   * Reads the file text from disk.
+   *
+   * @param uri The URI of the file to read.
+   */
+  public static async fromFile(uri: Uri): Promise<TextSnapshot> {
+    const data = await workspace.fs.readFile(uri);
+
+    return new TextSnapshot(uri, new TextDecoder().decode(data));
+  }
+
+  getText(range?: Range): string {
+    if (range === undefined) {
+      return this.#text;
+    }
+
+    const { end, start } = this.validateRange(range);
+
+    return this.#text.slice(this.offsetAt(start), this.offsetAt(end));
+  }
+
+  getWordRangeAtPosition(
+    position: Position,
+    regex: RegExp = DEFAULT_WORD_PATTERN,
+  ): Range | undefined {
+    const { character, line } = this.validatePosition(position);
+    const pattern = new RegExp(
+      regex.source,
+      regex.flags.replace('g', '') + 'g',
+    );
+    const text = this.#lines[line] ?? '';
+
+    for (const { 0: word, index } of text.matchAll(pattern)) {
+      if (index <= character && character <= index + word.length) {
+        return new Range(line, index, line, index + word.length);
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Checks if the file on disk has been changed since its text was read.
+   *
+   * @returns `true` if the file text differs or the file can't be read.
+   */
+  async isChangedOnDisk(): Promise<boolean> {
+    try {
+      const data = await workspace.fs.readFile(this.uri);
+
+      return new TextDecoder().decode(data) !== this.#text;
+    } catch {
+      return true;
+    }
+  }
+
+  lineAt(lineOrPosition: number | Position): TextLine {
+    const lineNumber =
+      typeof lineOrPosition === 'number' ? lineOrPosition : lineOrPosition.line;
+    const text = this.#lines[lineNumber];
+
+    if (!Number.isInteger(lineNumber) || text === undefined) {
+      throw new Error(`Illegal value for line: ${lineNumber.toString()}`);
+    }
+
+    const range = new Range(lineNumber, 0, lineNumber, text.length);
+    const firstNonWhitespaceCharacterIndex = /^\s*/.exec(text)?.[0].length ?? 0;
+
+    return {
+      firstNonWhitespaceCharacterIndex,
+      isEmptyOrWhitespace: firstNonWhitespaceCharacterIndex === text.length,
+      lineNumber,
+      range,
+      rangeIncludingLineBreak:
+        lineNumber === this.lineCount - 1
+          ? range
+          : new Range(lineNumber, 0, lineNumber + 1, 0),
+      text,
+    };
+  }
+
+  offsetAt(position: Position): number {
+    const { character, line } = this.validatePosition(position);
+
+    return (this.#lineOffsets[line] ?? 0) + character;
+  }
+
+  positionAt(offset: number): Position {
+    offset = Math.min(Math.max(Math.floor(offset), 0), this.#text.length);
+
+    let line = 0;
+
+    while (
+      line + 1 < this.#lineOffsets.length &&
+      (this.#lineOffsets[line + 1] ?? Infinity) <= offset
+    ) {
+      line++;
+    }
+
+    const lineOffset = this.#lineOffsets[line] ?? 0;
+    const lineLength = this.#lines[line]?.length ?? 0;
+
+    return new Position(line, Math.min(offset - lineOffset, lineLength));
+  }
+
+  save(): Thenable<boolean> {
+    return Promise.resolve(false);
+  }
+
+  validatePosition(position: Position): Position {
+    if (position.line < 0) {
+      return new Position(0, 0);
+    }
+
+    if (position.line >= this.lineCount) {
+      const line = this.lineCount - 1;
+
+      return new Position(line, this.#lines[line]?.length ?? 0);
+    }
+
+    const lineLength = this.#lines[position.line]?.length ?? 0;
+
+    return new Position(
+      position.line,
+      Math.min(Math.max(position.character, 0), lineLength),
+    );
+  }
+
+  validateRange(range: Range): Range {
+    return new Range(
+      this.validatePosition(range.start),
+      this.validatePosition(range.end),
+    );
+  }
+}
+
+export { TextSnapshot };
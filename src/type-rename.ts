@@ -0,0 +1,211 @@
+import { CodeAction, Range, WorkspaceEdit } from 'vscode';
+
+import { importedFiles, loadProtobufFiles } from './protobuf-files.js';
+import { parseSymbols, resolveReference } from './protobuf-symbols.js';
+
+import type { CancellationToken, CodeActionKind, TextDocument } from 'vscode';
+
+import type { IProtobufFile } from './protobuf-files.js';
+import type { ITypeDeclaration, ITypeReference } from './protobuf-symbols.js';
+
+/**
+ * A message or enum rename requested by a quick fix.
+ */
+interface ITypeRename {
+  /**
+   * The document declaring the type.
+   */
+  document: TextDocument;
+
+  /**
+   * The new type name.
+   */
+  name: string;
+
+  /**
+   * The declared name range.
+   */
+  range: Range;
+}
+
+/**
+ * A quick fix renaming messages or enums with all references to them.
+ *
+ * The action has no edit until it's resolved, as searching for the references
+ * requires reading all protobuf files of the workspace.
+ */
+class TypeRenameAction extends CodeAction {
+  /**
+   * The renames of the types declared in one document.
+   */
+  public readonly renames: readonly ITypeRename[];
+
+  constructor(
+    title: string,
+    kind: CodeActionKind,
+    renames: readonly ITypeRename[],
+  ) {
+    super(title, kind);
+
+    this.renames = renames;
+  }
+}
+
+/**
+ * Collects the fully-qualified names visible in the file: its own
+ * declarations, the declarations of the imported files, and their packages.
+ */
+function definedNames(
+  file: IProtobufFile,
+  imported: readonly IProtobufFile[],
+): Set<string> {
+  const names = new Set<string>();
+
+  for (const { symbols } of [file, ...imported]) {
+    const packageParts =
+      symbols.package === '' ? [] : symbols.package.split('.');
+
+    for (let length = 1; length <= packageParts.length; length++) {
+      names.add(packageParts.slice(0, length).join('.'));
+    }
+
+    for (const { fullName } of symbols.declarations) {
+      names.add(fullName);
+    }
+  }
+
+  return names;
+}
+
+/**
+ * Finds the name part of the reference which names the renamed type, e.g.
+ * `Inner` of `Outer.Inner.Nested` when `pkg.Outer.Inner` is renamed.
+ *
+ * @param reference The type reference.
+ * @param resolved The fully-qualified name the reference resolves to.
+ * @param target The renamed type declaration.
+ */
+function renamedPart(
+  { parts }: ITypeReference,
+  resolved: string,
+  { fullName }: ITypeDeclaration,
+): ITypeReference['parts'][number] | undefined {
+  if (resolved !== fullName && !resolved.startsWith(`${fullName}.`)) {
+    return;
+  }
+
+  const targetIndex = fullName.split('.').length - 1;
+  const omitted = resolved.split('.').length - parts.length;
+
+  return targetIndex >= omitted ? parts[targetIndex - omitted] : undefined;
+}
+
+/**
+ * Adds the edits renaming the file references to the target types.
+ *
+ * @param edit The rename edit.
+ * @param file The file referencing the types.
+ * @param imported The files the file imports.
+ * @param targets The renamed type declarations with their new names.
+ */
+function renameReferences(
+  edit: WorkspaceEdit,
+  file: IProtobufFile,
+  imported: readonly IProtobufFile[],
+  targets: readonly [ITypeDeclaration, string][],
+): void {
+  const names = definedNames(file, imported);
+
+  for (const reference of file.symbols.references) {
+    const resolved = resolveReference(reference, (fullName) =>
+      names.has(fullName),
+    );
+
+    if (resolved === undefined) {
+      continue;
+    }
+
+    for (const [target, name] of targets) {
+      const part = renamedPart(reference, resolved, target);
+
+      if (part !== undefined) {
+        edit.replace(
+          file.document.uri,
+          new Range(
+            file.document.positionAt(part.start),
+            file.document.positionAt(part.end),
+          ),
+          name,
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Computes the edit renaming the message or enum declarations and the type
+ * references to them in the workspace protobuf files.
+ *
+ * References are resolved the way `protoc` does, taking the packages, the
+ * nested scopes and the imports, including `import public`, into account. Only
+ * the declaration is renamed if it can't be found in the document.
+ *
+ * @param renames The requested renames of the types declared in one document.
+ * @param token The cancellation token.
+ */
+async function typeRenameEdit(
+  renames: readonly ITypeRename[],
+  token: CancellationToken,
+): Promise<WorkspaceEdit> {
+  const edit = new WorkspaceEdit();
+  const [first] = renames;
+
+  if (first === undefined) {
+    return edit;
+  }
+
+  const { document } = first;
+  const { declarations } = parseSymbols(document.getText());
+  const targets: [ITypeDeclaration, string][] = [];
+
+  for (const { name, range } of renames) {
+    const [start, end] = [
+      document.offsetAt(range.start),
+      document.offsetAt(range.end),
+    ];
+    const target = declarations.find(
+      (declaration) =>
+        declaration.name.start === start && declaration.name.end === end,
+    );
+
+    edit.replace(document.uri, range, name);
+
+    if (target !== undefined) {
+      targets.push([target, name]);
+    }
+  }
+
+  if (targets.length === 0) {
+    return edit;
+  }
+
+  const files = await loadProtobufFiles(document, token);
+
+  for (const file of files) {
+    const imported = importedFiles(file, files);
+
+    if (
+      file.document !== document &&
+      !imported.some((candidate) => candidate.document === document)
+    ) {
+      continue;
+    }
+
+    renameReferences(edit, file, imported, targets);
+  }
+
+  return edit;
+}
+
+export type { ITypeRename };
+export { TypeRenameAction, typeRenameEdit };
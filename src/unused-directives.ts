@@ -0,0 +1,281 @@
+import {
+  CodeAction,
+  Diagnostic,
+  DiagnosticSeverity,
+  DiagnosticTag,
+  Position,
+  workspace,
+  WorkspaceEdit,
+} from 'vscode';
+
+import { CONFIG_SECTION, DIAGNOSTIC_SOURCE } from './constants.js';
+import { DirectiveKind, parseDirective } from './disable-directive.js';
+import { TokenMap } from './protobuf-parser.js';
+import { PROTOLINT_QUICK_FIX } from './rule-mapper.js';
+
+import type { ConfigurationScope, Range, TextDocument } from 'vscode';
+
+import type { IDirective } from './disable-directive.js';
+import type { IJsonLintsItem } from './json-report-parser.js';
+
+/**
+ * Unused directives reporting configuration key in VS Code Settings.
+ */
+const CONFIG_REPORT_UNUSED_DIRECTIVES_KEY = 'reportUnusedDirectives';
+/**
+ * Unused directives reporting VS Code name.
+ */
+const CONFIG_REPORT_UNUSED_DIRECTIVES_SECTION = `${CONFIG_SECTION}.${CONFIG_REPORT_UNUSED_DIRECTIVES_KEY}`;
+
+/**
+ * A code for the diagnostic of a `protolint` directive which doesn't suppress
+ * any linting error.
+ */
+const UNUSED_DIRECTIVE_CODE = 'UNUSED_DIRECTIVE';
+
+/**
+ * A hint for a `protolint` directive listing the rules which aren't reported
+ * for the lines the directive applies to.
+ */
+class UnusedDirectiveDiagnostic extends Diagnostic {
+  public readonly directive: IDirective;
+
+  /**
+   * The unused rule IDs of the directive.
+   */
+  public readonly rules: readonly string[];
+
+  constructor(directive: IDirective, rules: readonly string[]) {
+    super(
+      directive.range,
+      `Unused ${directive.kind} directive for ${rules.join(', ')}`,
+      DiagnosticSeverity.Hint,
+    );
+
+    this.source = DIAGNOSTIC_SOURCE;
+    this.code = UNUSED_DIRECTIVE_CODE;
+    this.tags = [DiagnosticTag.Unnecessary];
+    this.directive = directive;
+    this.rules = rules;
+  }
+}
+
+/**
+ * Finds all `protolint` directives in the document comments.
+ *
+ * @param document The document to search.
+ */
+function findDirectives(document: TextDocument): IDirective[] {
+  const comments = new TokenMap(document).comments();
+
+  if (comments.result === 'error') {
+    return [];
+  }
+
+  return comments.value
+    .flat()
+    .map((comment) => parseDirective(comment))
+    .filter((directive) => directive !== undefined);
+}
+
+/**
+ * Checks whether the directive comment contains nothing but the directive, so
+ * the whole comment can be removed.
+ */
+function isDirectiveComment(
+  document: TextDocument,
+  { comment, range }: IDirective,
+): boolean {
+  const text = document.getText(comment);
+  let body;
+
+  if (text.startsWith('//')) {
+    body = text.slice(2);
+  } else if (text.startsWith('/*') && text.endsWith('*/') && text.length >= 4) {
+    body = text.slice(2, -2);
+  }
+
+  return body?.trim() === document.getText(range);
+}
+
+/**
+ * Finds the range to delete to remove the directive. The whole comment line is
+ * removed if there is nothing else in it.
+ */
+function removalRange(document: TextDocument, directive: IDirective): Range {
+  if (!isDirectiveComment(document, directive)) {
+    return directive.range;
+  }
+
+  const { comment } = directive;
+  const line = document.lineAt(comment.start.line);
+  const before = line.text.slice(0, comment.start.character);
+  const after = line.text.slice(comment.end.character);
+
+  if (after.trim() !== '') {
+    return comment.with({
+      end: comment.end.translate(0, after.length - after.trimStart().length),
+    });
+  }
+
+  if (before.trim() === '') {
+    return line.rangeIncludingLineBreak;
+  }
+
+  return comment.with({
+    start: new Position(line.lineNumber, before.trimEnd().length),
+  });
+}
+
+/**
+ * Gets whether unused `protolint` directives are reported for the scope from
+ * VS Code Settings.
+ *
+ * @param scope The scope to get the setting for.
+ */
+function reportsUnusedDirectives(scope: ConfigurationScope): boolean {
+  return workspace
+    .getConfiguration(CONFIG_SECTION, scope)
+    .get<boolean>(CONFIG_REPORT_UNUSED_DIRECTIVES_KEY, false);
+}
+
+/**
+ * Replaces the directives with spaces, so that the linting errors of the text
+ * keep their positions. The line breaks of multi-line comments are kept.
+ *
+ * Directive comments are replaced as a whole, as they may be counted as the
+ * element comments, e.g. by `MESSAGES_HAVE_COMMENT` rule.
+ *
+ * @param document The document with the directives.
+ * @param directives The document directives.
+ * @returns The document text without the directives.
+ */
+function stripDirectives(
+  document: TextDocument,
+  directives: readonly IDirective[],
+): string {
+  let text = document.getText();
+
+  for (const directive of directives) {
+    const range = isDirectiveComment(document, directive)
+      ? directive.comment
+      : directive.range;
+    const start = document.offsetAt(range.start);
+    const end = document.offsetAt(range.end);
+
+    text =
+      text.slice(0, start) +
+      text.slice(start, end).replaceAll(/[^\n\r]/g, ' ') +
+      text.slice(end);
+  }
+
+  return text;
+}
+
+/**
+ * Creates the quick fix removing the unused rules from the directive, or the
+ * whole directive if none of its rules are used.
+ *
+ * @param document The document with the directive.
+ * @param diagnostic The unused directive diagnostic.
+ */
+function unusedDirectiveActions(
+  document: TextDocument,
+  diagnostic: UnusedDirectiveDiagnostic,
+): CodeAction[] {
+  const { directive, rules } = diagnostic;
+  const used = directive.rules.filter((rule) => !rules.includes(rule));
+  const edit = new WorkspaceEdit();
+  let title;
+
+  if (used.length > 0) {
+    title = `Remove unused ${rules.join(', ')} from ${directive.kind} directive`;
+    edit.replace(
+      document.uri,
+      directive.range,
+      `${directive.kind} ${used.join(' ')}`,
+    );
+  } else {
+    title = `Remove unused ${directive.kind} directive`;
+    edit.delete(document.uri, removalRange(document, directive));
+  }
+
+  const action = new CodeAction(title, PROTOLINT_QUICK_FIX);
+
+  action.edit = edit;
+  action.diagnostics = [diagnostic];
+  action.isPreferred = true;
+
+  return [action];
+}
+
+/**
+ * Compares the directives with the linting errors reported for the document
+ * text without directives.
+ *
+ * @param document The document with the directives.
+ * @param directives The document directives.
+ * @param items The linting errors of the text without directives.
+ * @returns The diagnostics for the directive rules which don't suppress any
+ * linting error.
+ */
+function unusedDirectiveDiagnostics(
+  document: TextDocument,
+  directives: readonly IDirective[],
+  items: readonly IJsonLintsItem[],
+): UnusedDirectiveDiagnostic[] {
+  const diagnostics: UnusedDirectiveDiagnostic[] = [];
+
+  for (const directive of directives) {
+    const { comment, kind, rules } = directive;
+    const unused = rules.filter((rule) => {
+      let [start, end] = [comment.start.line, comment.start.line];
+
+      switch (kind) {
+        case DirectiveKind.Disable: {
+          const enable = directives.find(
+            (candidate) =>
+              candidate.kind === DirectiveKind.Enable &&
+              candidate.comment.start.line > start &&
+              candidate.rules.includes(rule),
+          );
+
+          end = enable?.comment.start.line ?? document.lineCount - 1;
+          break;
+        }
+
+        case DirectiveKind.DisableNext:
+          start = comment.end.line + 1;
+          end = start;
+          break;
+
+        case DirectiveKind.DisableThis:
+          break;
+
+        case DirectiveKind.Enable:
+          return false;
+      }
+
+      return !items.some(
+        ({ line, rule: reported }) =>
+          reported === rule && line - 1 >= start && line - 1 <= end,
+      );
+    });
+
+    if (unused.length > 0) {
+      diagnostics.push(new UnusedDirectiveDiagnostic(directive, unused));
+    }
+  }
+
+  return diagnostics;
+}
+
+export {
+  CONFIG_REPORT_UNUSED_DIRECTIVES_SECTION,
+  findDirectives,
+  reportsUnusedDirectives,
+  stripDirectives,
+  unusedDirectiveActions,
+  UnusedDirectiveDiagnostic,
+  unusedDirectiveDiagnostics,
+};
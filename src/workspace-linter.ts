@@ -0,0 +1,540 @@
+import {
+  languages,
+  ProgressLocation,
+  RelativePattern,
+  Uri,
+  window,
+  workspace,
+} from 'vscode';
+
+import {
+  COMMAND_LINT_WORKSPACE,
+  CONFIG_SECTION,
+  LINT_BATCH_SIZE,
+  PROTOBUF_GLOB,
+  PROTOBUF_SELECTOR,
+} from './constants.js';
+import { ExecuteErrorCode } from './executable.js';
+import {
+  getConfigPath,
+  isAffectedByConfig,
+  registerCommand,
+} from './helpers.js';
+import {
+  lintDiagnostics,
+  LintReportErrorCode,
+  splitResult,
+} from './lint-report.js';
+import { logger } from './logger.js';
+import { Measure } from './performance.js';
+import { TextSnapshot } from './text-snapshot.js';
+
+import type {
+  CancellationToken,
+  DiagnosticCollection,
+  ExtensionContext,
+  Progress,
+  WorkspaceFolder,
+} from 'vscode';
+
+import type { ExecutableCache } from './config.js';
+import type { Executable } from './executable.js';
+
+/**
+ * Workspace linting on startup configuration key in VS Code Settings.
+ */
+const CONFIG_LINT_ON_STARTUP_KEY = 'lintWorkspaceOnStartup';
+
+/**
+ * Files on disk which can be linted in one `protolint` process.
+ */
+interface ILintBatch {
+  configPath: string | undefined;
+
+  /**
+   * CWD for running `protolint` process.
+   */
+  cwd: string;
+  executable: Executable;
+  uris: Uri[];
+}
+
+type TProgress = Progress<{ increment?: number; message?: string }>;
+
+/**
+ * Lints protobuf files on disk that aren't opened in VS Code and keeps their
+ * diagnostics up to date.
+ *
+ * The diagnostics for opened documents are managed by `Diagnostics`, because
+ * they may have unsaved changes.
+ *
+ * You can't instantiate more than one {@link WorkspaceLinter}.
+ */
+class WorkspaceLinter {
+  private static _instance: undefined | WorkspaceLinter;
+
+  readonly #diagnosticCollection: DiagnosticCollection;
+  readonly #executableCache: ExecutableCache;
+
+  /**
+   * Workspace Folders that were linted entirely. Their closed files are
+   * re-linted when changed on disk.
+   */
+  readonly #folders = new Set<WorkspaceFolder>();
+
+  private constructor(
+    diagnosticCollection: DiagnosticCollection,
+    executableCache: ExecutableCache,
+  ) {
+    this.#diagnosticCollection = diagnosticCollection;
+    this.#executableCache = executableCache;
+  }
+
+  /**
+   * Instantiates the workspace linter and starts linting the Workspace
+   * Folders configured for linting on startup.
+   *
+   * @param context {@link ExtensionContext} for this extension.
+   * @param diagnosticCollection The collection to keep the diagnostics in.
+   * @param executableCache The cache to pick `protolint` executables from.
+   */
+  public static initialize(
+    context: ExtensionContext,
+    diagnosticCollection: DiagnosticCollection,
+    executableCache: ExecutableCache,
+  ): WorkspaceLinter {
+    if (this._instance) {
+      return this._instance;
+    }
+
+    const { subscriptions: disposables } = context;
+    const linter = new WorkspaceLinter(diagnosticCollection, executableCache);
+
+    this._instance = linter;
+
+    disposables.push(
+      registerCommand(COMMAND_LINT_WORKSPACE, async () =>
+        linter.lintFolders(workspace.workspaceFolders ?? []),
+      ),
+    );
+
+    const watcher = workspace.createFileSystemWatcher(PROTOBUF_GLOB);
+
+    disposables.push(watcher);
+    watcher.onDidCreate(
+      (uri) => {
+        logger.trace(`[File watcher] Protobuf create event:`, uri.toString());
+
+        void linter.refreshFile(uri);
+      },
+      undefined,
+      disposables,
+    );
+    watcher.onDidChange(
+      (uri) => {
+        logger.trace(`[File watcher] Protobuf change event:`, uri.toString());
+
+        void linter.refreshFile(uri);
+      },
+      undefined,
+      disposables,
+    );
+    watcher.onDidDelete(
+      (uri) => {
+        logger.trace(`[File watcher] Protobuf delete event:`, uri.toString());
+
+        if (!isOpened(uri)) {
+          diagnosticCollection.delete(uri);
+        }
+      },
+      undefined,
+      disposables,
+    );
+
+    // Unsaved changes are discarded when the document is closed, so the
+    // diagnostics should match the file on disk again.
+    workspace.onDidCloseTextDocument(
+      (document) => {
+        if (languages.match(PROTOBUF_SELECTOR, document)) {
+          void linter.refreshFile(document.uri);
+        }
+      },
+      undefined,
+      disposables,
+    );
+
+    workspace.onDidChangeWorkspaceFolders(
+      ({ added, removed }) => {
+        for (const folder of removed) {
+          linter.#folders.delete(folder);
+        }
+
+        if (removed.length > 0) {
+          linter._pruneDiagnostics();
+        }
+
+        void linter.lintFolders(
+          added.filter((folder) => lintsOnStartup(folder)),
+        );
+      },
+      undefined,
+      disposables,
+    );
+
+    void linter.lintFolders(
+      (workspace.workspaceFolders ?? []).filter((folder) =>
+        lintsOnStartup(folder),
+      ),
+    );
+
+    return linter;
+  }
+
+  /**
+   * Lints all protobuf files in the Workspace Folders showing the progress
+   * notification. The files opened in VS Code are skipped.
+   *
+   * After that, the diagnostics for the folder files are refreshed when the
+   * files are changed on disk.
+   *
+   * @param folders The Workspace Folders to lint.
+   */
+  async lintFolders(folders: readonly WorkspaceFolder[]): Promise<void> {
+    if (folders.length === 0) {
+      return;
+    }
+
+    await window.withProgress(
+      {
+        cancellable: true,
+        location: ProgressLocation.Notification,
+        title: 'protolint',
+      },
+      async (progress, token) => this._lintFolders(folders, progress, token),
+    );
+  }
+
+  /**
+   * Lints the closed files affected by `protolint` config file changes again,
+   * if their Workspace Folder was linted entirely.
+   *
+   * @param configUri The created, changed or deleted config file URI.
+   */
+  async refreshConfig(configUri: Uri): Promise<void> {
+    const folder = workspace.getWorkspaceFolder(configUri);
+
+    if (folder === undefined || !this.#folders.has(folder)) {
+      return;
+    }
+
+    const uris = await workspace.findFiles(
+      new RelativePattern(Uri.joinPath(configUri, '..'), PROTOBUF_GLOB),
+    );
+    const affectedUris: Uri[] = [];
+
+    for (const uri of uris) {
+      const uriFolder = workspace.getWorkspaceFolder(uri);
+
+      if (
+        uriFolder !== undefined &&
+        this.#folders.has(uriFolder) &&
+        (await isAffectedByConfig(uri, configUri))
+      ) {
+        affectedUris.push(uri);
+      }
+    }
+
+    await this._lint(affectedUris);
+  }
+
+  /**
+   * Lints the file on disk if its Workspace Folder was linted entirely and
+   * the file isn't opened in VS Code.
+   *
+   * @param uri The file URI.
+   */
+  async refreshFile(uri: Uri): Promise<void> {
+    const folder = workspace.getWorkspaceFolder(uri);
+
+    if (folder === undefined || !this.#folders.has(folder)) {
+      return;
+    }
+
+    await this._lint([uri]);
+  }
+
+  /**
+   * Lints all closed files of the Workspace Folder again, if the folder was
+   * linted entirely before. No progress notification is shown.
+   *
+   * @param folder The Workspace Folder to refresh.
+   */
+  async refreshFolder(folder: WorkspaceFolder): Promise<void> {
+    if (!this.#folders.has(folder)) {
+      return;
+    }
+
+    await this._lintFolders([folder]);
+  }
+
+  private async _getBatches(uris: readonly Uri[]): Promise<ILintBatch[]> {
+    const groups = new Map<string, ILintBatch>();
+
+    for (const uri of uris) {
+      const folder = workspace.getWorkspaceFolder(uri);
+
+      if (folder === undefined) {
+        continue;
+      }
+
+      const configPath = await getConfigPath(uri);
+      const key = `${folder.uri.toString()}\n${configPath ?? ''}`;
+      let group = groups.get(key);
+
+      if (group === undefined) {
+        group = {
+          configPath,
+          cwd: folder.uri.fsPath,
+          executable: this.#executableCache.getExecutable(uri),
+          uris: [],
+        };
+        groups.set(key, group);
+      }
+
+      group.uris.push(uri);
+    }
+
+    const batches: ILintBatch[] = [];
+
+    for (const { uris: groupUris, ...options } of groups.values()) {
+      for (let index = 0; index < groupUris.length; index += LINT_BATCH_SIZE) {
+        batches.push({
+          ...options,
+          uris: groupUris.slice(index, index + LINT_BATCH_SIZE),
+        });
+      }
+    }
+
+    return batches;
+  }
+
+  private async _lint(
+    uris: readonly Uri[],
+    progress?: TProgress,
+    token?: CancellationToken,
+  ): Promise<void> {
+    const closedUris = uris.filter((uri) => !isOpened(uri));
+    const total = closedUris.length.toString();
+    const batches = await this._getBatches(closedUris);
+
+    using measure = new Measure('info', `Lint ${total} file(s) on disk`);
+    const controller = new AbortController();
+    const cancellation = token?.onCancellationRequested(() => {
+      controller.abort();
+    });
+    let linted = 0;
+
+    progress?.report({ message: `Linting 0/${total} files` });
+
+    try {
+      for (const batch of batches) {
+        await this._lintBatch(batch, controller.signal);
+
+        // The canceled batch isn't linted completely.
+        if (controller.signal.aborted) {
+          break;
+        }
+
+        linted += batch.uris.length;
+        progress?.report({
+          increment: (batch.uris.length / closedUris.length) * 100,
+          message: `Linting ${linted.toString()}/${total} files`,
+        });
+      }
+    } finally {
+      cancellation?.dispose();
+    }
+
+    if (controller.signal.aborted) {
+      logger.info(
+        `[Workspace linter] Linting canceled after ${linted.toString()} of ${total} file(s)`,
+      );
+
+      return;
+    }
+
+    measure.end();
+  }
+
+  /**
+   * Lints the batch files and sets their diagnostics.
+   *
+   * @param batch The files to lint.
+   * @param signal Stops linting when aborted. The running `protolint` process
+   * is terminated.
+   */
+  private async _lintBatch(
+    batch: ILintBatch,
+    signal: AbortSignal,
+  ): Promise<void> {
+    const { configPath, cwd, executable, uris } = batch;
+    const files = uris.length.toString();
+    let lint;
+
+    try {
+      lint = await executable.lintFiles(uris, configPath, cwd, signal);
+    } catch (error) {
+      logger.error(
+        `[Workspace linter] Failed linting ${files} file(s). Details:`,
+        error,
+      );
+
+      return;
+    }
+
+    if (lint.result === 'error') {
+      if (lint.error.code !== ExecuteErrorCode.Canceled) {
+        logger.error(
+          `[Workspace linter] Failed linting ${files} file(s). Details:`,
+          lint,
+        );
+      }
+
+      return;
+    }
+
+    const split = splitResult(lint.value, uris, cwd);
+
+    if (split.result === 'error') {
+      // `protolint` doesn't tell which file can't be linted, e.g. due to a
+      // protobuf syntax error, so the files are linted one by one.
+      if (split.error.code === LintReportErrorCode.Ambiguous) {
+        for (const uri of uris) {
+          if (signal.aborted) {
+            return;
+          }
+
+          await this._lintBatch({ ...batch, uris: [uri] }, signal);
+        }
+
+        return;
+      }
+
+      logger.error(`[Workspace linter] ` + split.error.message, split.error);
+
+      return;
+    }
+
+    for (const [uri, result] of split.value) {
+      await this._setDiagnostics(uri, (snapshot) =>
+        lintDiagnostics(snapshot, result),
+      );
+    }
+  }
+
+  private async _lintFolders(
+    folders: readonly WorkspaceFolder[],
+    progress?: TProgress,
+    token?: CancellationToken,
+  ): Promise<void> {
+    progress?.report({ message: 'Searching for protobuf files' });
+
+    const uris: Uri[] = [];
+
+    for (const folder of folders) {
+      this.#folders.add(folder);
+
+      const folderUris = await workspace.findFiles(
+        new RelativePattern(folder, PROTOBUF_GLOB),
+        undefined,
+        undefined,
+        token,
+      );
+
+      // Nested Workspace Folders lint their own files.
+      uris.push(
+        ...folderUris.filter(
+          (uri) => workspace.getWorkspaceFolder(uri) === folder,
+        ),
+      );
+    }
+
+    await this._lint(uris, progress, token);
+  }
+
+  /**
+   * Deletes diagnostics of closed files which aren't in the linted Workspace
+   * Folders anymore.
+   */
+  private _pruneDiagnostics(): void {
+    const obsoleteUris: Uri[] = [];
+
+    for (const [uri] of this.#diagnosticCollection) {
+      const folder = workspace.getWorkspaceFolder(uri);
+
+      if (
+        !isOpened(uri) &&
+        (folder === undefined || !this.#folders.has(folder))
+      ) {
+        obsoleteUris.push(uri);
+      }
+    }
+
+    for (const uri of obsoleteUris) {
+      this.#diagnosticCollection.delete(uri);
+    }
+  }
+
+  private async _setDiagnostics(
+    uri: Uri,
+    getDiagnostics: (
+      snapshot: TextSnapshot,
+    ) => ReturnType<typeof lintDiagnostics>,
+  ): Promise<void> {
+    let snapshot;
+
+    try {
+      snapshot = await TextSnapshot.fromFile(uri);
+    } catch (error) {
+      logger.error(
+        `[Workspace linter] Failed reading ${uri.toString()}. Details:`,
+        error,
+      );
+      this.#diagnosticCollection.delete(uri);
+
+      return;
+    }
+
+    const diagnostics = getDiagnostics(snapshot);
+
+    if (diagnostics.result === 'error') {
+      logger.error(
+        `[Workspace linter] ` + diagnostics.error.message,
+        diagnostics.error,
+      );
+
+      return;
+    }
+
+    // The document may have been opened while linting the file on disk.
+    if (!isOpened(uri)) {
+      this.#diagnosticCollection.set(uri, diagnostics.value);
+    }
+  }
+}
+
+function isOpened(uri: Uri): boolean {
+  const target = uri.toString();
+
+  return workspace.textDocuments.some(
+    (document) => !document.isClosed && document.uri.toString() === target,
+  );
+}
+
+function lintsOnStartup(folder: WorkspaceFolder): boolean {
+  return workspace
+    .getConfiguration(CONFIG_SECTION, folder)
+    .get<boolean>(CONFIG_LINT_ON_STARTUP_KEY, false);
+}
+
+export { WorkspaceLinter };
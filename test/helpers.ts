@@ -34,6 +34,7 @@ import type {
   Event,
   Range,
   TextDocument,
+  TextEdit,
   WorkspaceFolder,
 } from 'vscode';
 
@@ -57,6 +58,12 @@ const RULES_FIXTURE_BASENAME = 'rule.mapper.proto';
 const RULES_FIXTURE = Uri.joinPath(FIXTURES_DIRECTORY, RULES_FIXTURE_BASENAME);
 const INVALID_EXECUTABLE_COMMAND = '_';
 
+/**
+ * The number of code actions to resolve, so that the lazily computed edits,
+ * e.g. type renames, can be compared.
+ */
+const CODE_ACTIONS_RESOLVE_COUNT = 100;
+
 /**
  * Overrides Mocha timeouts for debugging purposes. If a particular timeout
  * shouldn't be changed when debugging, don't use this function for setting the
@@ -122,6 +129,25 @@ async function appendWorkspaceFolders(
   await workspaceFoldersChange;
 }
 
+/**
+ * Applies the edits to the text without modifying the document.
+ */
+function applyEdits(document: TextDocument, edits: TextEdit[]): string {
+  let text = document.getText();
+
+  for (const edit of edits.toSorted(
+    (a, b) =>
+      document.offsetAt(b.range.start) - document.offsetAt(a.range.start),
+  )) {
+    text =
+      text.slice(0, document.offsetAt(edit.range.start)) +
+      edit.newText +
+      text.slice(document.offsetAt(edit.range.end));
+  }
+
+  return text;
+}
+
 function getExecutablePath(): string {
   const moduleRoot = path.dirname(
     fileURLToPath(import.meta.resolve('protolint')),
@@ -423,6 +449,8 @@ async function getCodeActions(
     'vscode.executeCodeActionProvider',
     uri,
     expectedRange,
+    undefined,
+    CODE_ACTIONS_RESOLVE_COUNT,
   );
 }
 
@@ -690,6 +718,7 @@ async function getReflection({ uri }: TextDocument): Promise<IReflection> {
 export type { IRuleTest, TFiredEventAssertion };
 export {
   appendWorkspaceFolders,
+  applyEdits,
   closeDocuments,
   codeActionAssertion,
   configurationAffectedAssertion,
@@ -0,0 +1,156 @@
+import { expect } from 'chai';
+
+import { addIgnoredFile, addRemovedRule } from '../../dist/config-editor.js';
+
+const CONFIG_TEXT = `---
+# protolint config
+lint:
+  rules:
+    remove:
+    - ENUM_NAMES_UPPER_CAMEL_CASE # legacy enums
+  ignores:
+    - id: FIELD_NAMES_LOWER_SNAKE_CASE
+      files: [a.proto]
+`;
+
+describe('config-editor:', function () {
+  describe('#addRemovedRule()', function () {
+    it('should create the config', function () {
+      expect(addRemovedRule('', 'MAX_LINE_LENGTH')).to.deep.equal({
+        result: 'success',
+        value: `lint:
+  rules:
+    remove:
+      - MAX_LINE_LENGTH
+`,
+      });
+    });
+
+    it('should keep the config comments and flow sequences', function () {
+      expect(addRemovedRule(CONFIG_TEXT, 'MAX_LINE_LENGTH')).to.deep.equal({
+        result: 'success',
+        value: `---
+# protolint config
+lint:
+  rules:
+    remove:
+      - ENUM_NAMES_UPPER_CAMEL_CASE # legacy enums
+      - MAX_LINE_LENGTH
+  ignores:
+    - id: FIELD_NAMES_LOWER_SNAKE_CASE
+      files: [a.proto]
+`,
+      });
+    });
+
+    it('should remove the rule from the added rules without defaults', function () {
+      const config = `lint:
+  rules:
+    no_default: true
+    add:
+      - ENUM_NAMES_UPPER_CAMEL_CASE
+      - MAX_LINE_LENGTH
+`;
+
+      expect(addRemovedRule(config, 'MAX_LINE_LENGTH')).to.deep.equal({
+        result: 'success',
+        value: `lint:
+  rules:
+    no_default: true
+    add:
+      - ENUM_NAMES_UPPER_CAMEL_CASE
+`,
+      });
+    });
+
+    it('should remove the rule from the added rules flow sequence', function () {
+      const config = `lint:
+  rules:
+    no_default: true
+    add: [MAX_LINE_LENGTH, ORDER] # strict
+`;
+
+      expect(addRemovedRule(config, 'MAX_LINE_LENGTH'))
+        .to.have.property('value')
+        .that.includes('    add: [ORDER] # strict\n');
+    });
+
+    it('should edit the config with flow mappings', function () {
+      const config = `lint:
+  rules_option:
+    max_line_length: {max_chars: 120, tab_chars: 2}
+`;
+
+      expect(addRemovedRule(config, 'MAX_LINE_LENGTH')).to.deep.equal({
+        result: 'success',
+        value: `lint:
+  rules_option:
+    max_line_length: {max_chars: 120, tab_chars: 2}
+  rules:
+    remove:
+      - MAX_LINE_LENGTH
+`,
+      });
+    });
+
+    it('should edit the config written as a flow mapping', function () {
+      const config = `lint: {rules: {no_default: true, add: [ORDER]}} # strict
+`;
+
+      expect(addRemovedRule(config, 'MAX_LINE_LENGTH')).to.deep.equal({
+        result: 'success',
+        value: `lint: {rules: {no_default: true, add: [ORDER], remove: [MAX_LINE_LENGTH]}} # strict
+`,
+      });
+    });
+
+    it('should fail for the unsupported config structure', function () {
+      const config = `lint:
+  rules:
+    remove: MAX_LINE_LENGTH
+`;
+
+      expect(addRemovedRule(config, 'ORDER')).to.deep.equal({
+        error: { code: 'CONFIG_EDIT_UNSUPPORTED', line: 3 },
+        result: 'error',
+      });
+    });
+
+    it('should not change the config with the rule removed', function () {
+      expect(
+        addRemovedRule(CONFIG_TEXT, 'ENUM_NAMES_UPPER_CAMEL_CASE'),
+      ).to.deep.equal({ result: 'success', value: undefined });
+    });
+  });
+
+  describe('#addIgnoredFile()', function () {
+    it('should add the file to the existing rule entry', function () {
+      const result = addIgnoredFile(
+        CONFIG_TEXT,
+        'FIELD_NAMES_LOWER_SNAKE_CASE',
+        'b.proto',
+      );
+
+      expect(result)
+        .to.have.property('value')
+        .that.includes('      files: [a.proto, b.proto]\n');
+    });
+
+    it('should add a new rule entry', function () {
+      const result = addIgnoredFile(
+        CONFIG_TEXT,
+        'MAX_LINE_LENGTH',
+        'path/to/c #1.proto',
+      );
+
+      expect(result)
+        .to.have.property('value')
+        .that.includes(
+          `    - id: MAX_LINE_LENGTH
+      files:
+        - "path/to/c #1.proto"
+`,
+        );
+    });
+  });
+});
@@ -539,6 +539,18 @@ describe('config:', function () {
         }
       });
 
+      it('should use the folder settings in the trusted workspace', function () {
+        expect(workspace.isTrusted, 'The test workspace must be trusted').to.be
+          .true;
+
+        for (const { uri } of folderDocuments.values()) {
+          expect(
+            pathCache.isRestricted(uri),
+            `Settings for ${uri.toString()} must not be restricted`,
+          ).to.be.false;
+        }
+      });
+
       it('should return the correct executable after re-opening the closed workspace folder', async function () {
         let innerWorkspaceFolder = getWorkspaceFolder(INNER_FOLDER_FIXTURE);
         const executableRemoved = promisifyEvent(
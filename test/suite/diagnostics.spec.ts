@@ -1,10 +1,23 @@
+import { setTimeout } from 'node:timers/promises';
+
 import { expect } from 'chai';
-import { languages, Uri, window, workspace, WorkspaceEdit } from 'vscode';
+import {
+  ConfigurationTarget,
+  DiagnosticSeverity,
+  languages,
+  Uri,
+  window,
+  workspace,
+  WorkspaceEdit,
+} from 'vscode';
 
 import {
+  COMMAND_LINT_DOCUMENTS,
   CONFIG_BASENAME,
+  CONFIG_SECTION,
   SUPPORTED_LANGUAGE_ID,
 } from '../../dist/constants.js';
+import { executeCommand } from '../../dist/helpers.js';
 import {
   appendWorkspaceFolders,
   closeDocuments,
@@ -12,6 +25,9 @@ import {
   FIXTURES_DIRECTORY,
   getDiagnosticCodes,
   getTargetDiagnostics,
+  getTestingApi,
+  getWorkspaceFolder,
+  promisifyEvent,
   removeWorkspaceFolder,
   resetCommandConfig,
   resetWorkspaceFolders,
@@ -28,6 +44,8 @@ const NESTED_DIAGNOSTICS_FIXTURE = Uri.joinPath(
 );
 const DIAGNOSTICS_FIXTURE_BASENAME = 'diagnostics.proto';
 
+const batchedDocumentUri = Uri.joinPath(DIAGNOSTICS_DIRECTORY, 'batched.proto');
+
 const rootDocumentUri = Uri.joinPath(
   DIAGNOSTICS_DIRECTORY,
   DIAGNOSTICS_FIXTURE_BASENAME,
@@ -41,6 +59,7 @@ const rootConfigUri = Uri.joinPath(DIAGNOSTICS_DIRECTORY, CONFIG_BASENAME);
 const rootConfigTargetUri = Uri.joinPath(rootConfigUri, '..', 'temp.yaml');
 
 const documentCodes = ['MESSAGE_NAMES_UPPER_CAMEL_CASE'];
+const nestedCodes = ['FIELD_NAMES_LOWER_SNAKE_CASE'];
 const untitledCodes = [
   'FIELD_NAMES_LOWER_SNAKE_CASE',
   'MESSAGE_NAMES_UPPER_CAMEL_CASE',
@@ -126,7 +145,7 @@ describe('diagnostics:', function () {
       );
       const nestedDiagnostics = getTargetDiagnostics(
         nestedDocument.uri,
-        documentCodes,
+        nestedCodes,
       );
 
       await window.showTextDocument(nestedDocument, {
@@ -182,14 +201,9 @@ describe('diagnostics:', function () {
           rootDocument.uri,
           documentCodes,
         );
-        const nestedDiagnostics = getTargetDiagnostics(
-          nestedDocument.uri,
-          documentCodes,
-        );
 
         await undoRenameFile(rootConfigTargetUri, rootConfigUri);
         await rootDiagnostics;
-        await nestedDiagnostics;
       }
 
       const rootConfig = await workspace.openTextDocument(rootConfigUri);
@@ -199,15 +213,10 @@ describe('diagnostics:', function () {
           rootDocument.uri,
           documentCodes,
         );
-        const nestedDiagnostics = getTargetDiagnostics(
-          nestedDocument.uri,
-          documentCodes,
-        );
 
         await setDocumentText(rootConfigUri, initialRootConfig, true);
 
         await rootDiagnostics;
-        await nestedDiagnostics;
       }
 
       rootDocument = await undoRenameFile(documentTargetUri, rootDocumentUri);
@@ -219,7 +228,7 @@ describe('diagnostics:', function () {
       ) {
         const nestedDiagnostics = getTargetDiagnostics(
           nestedDocument.uri,
-          documentCodes,
+          nestedCodes,
         );
         const rootDiagnostics = getTargetDiagnostics(
           rootDocument.uri,
@@ -253,7 +262,7 @@ describe('diagnostics:', function () {
       expect(
         getDiagnosticCodes(nestedDocument.uri),
         `The document '${nestedDocument.uri.toString()}' must have one diagnostic`,
-      ).to.deep.equal(documentCodes);
+      ).to.deep.equal(nestedCodes);
 
       expect(
         getDiagnosticCodes(untitledDocument.uri),
@@ -261,6 +270,62 @@ describe('diagnostics:', function () {
       ).to.deep.equal(untitledCodes);
     });
 
+    it(`should lint multiple documents at once`, async function () {
+      const diagnostics = getTargetDiagnostics(batchedDocumentUri, []);
+      const batchedDocument =
+        await workspace.openTextDocument(batchedDocumentUri);
+
+      await diagnostics;
+
+      const documents = [
+        rootDocument,
+        batchedDocument,
+        nestedDocument,
+        untitledDocument,
+        excludedDocument,
+      ];
+      const { executableCache } = await getTestingApi();
+      const runs: (readonly Uri[])[] = [];
+      const subscriptions = new Set(
+        documents.map(({ uri }) => executableCache.getExecutable(uri)),
+      )
+        .values()
+        .map((executable) =>
+          executable._onDidLintFiles?.((uris) => runs.push(uris)),
+        )
+        .toArray();
+
+      try {
+        await executeCommand(COMMAND_LINT_DOCUMENTS, documents);
+      } finally {
+        for (const subscription of subscriptions) {
+          subscription?.dispose();
+        }
+      }
+
+      expect(
+        runs.map((uris) => uris.length).toSorted((a, b) => a - b),
+        `The documents sharing the config and CWD must be linted in one process`,
+      ).to.deep.equal([1, 1, 2]);
+
+      expect(
+        getDiagnosticCodes(rootDocument.uri),
+        `The document '${rootDocument.uri.toString()}' must have its own diagnostics`,
+      ).to.deep.equal(documentCodes);
+      expect(
+        getDiagnosticCodes(nestedDocument.uri),
+        `The document '${nestedDocument.uri.toString()}' must have its own diagnostics`,
+      ).to.deep.equal(nestedCodes);
+      expect(
+        getDiagnosticCodes(untitledDocument.uri),
+        `The untitled document must have its own diagnostics`,
+      ).to.deep.equal(untitledCodes);
+      expect(
+        getDiagnosticCodes(excludedDocument.uri),
+        `The excluded document must have no diagnostics`,
+      ).to.deep.equal(excludedCodes);
+    });
+
     it(`should ignore the directory excluded via the config`, function () {
       expect(
         getDiagnosticCodes(excludedDocument.uri),
@@ -268,6 +333,34 @@ describe('diagnostics:', function () {
       ).to.deep.equal([]);
     });
 
+    it(`should ignore the excluded document with unsaved changes`, async function () {
+      const text = excludedDocument.getText();
+      let diagnostics = getTargetDiagnostics(
+        excludedDocument.uri,
+        excludedCodes,
+      );
+
+      try {
+        await setDocumentText(
+          excludedDocument.uri,
+          `${text}enum enum_name {\n}\n`,
+          false,
+        );
+
+        expect(excludedDocument.isDirty, `The document must be dirty`).to.be
+          .true;
+        expect(
+          await diagnostics,
+          `The excluded document must have no diagnostics`,
+        ).to.deep.equal(excludedCodes);
+      } finally {
+        diagnostics = getTargetDiagnostics(excludedDocument.uri, excludedCodes);
+
+        await setDocumentText(excludedDocument.uri, text, true);
+        await diagnostics;
+      }
+    });
+
     it(`should follow the document language`, async function () {
       await window.showTextDocument(untitledDocument, {
         preserveFocus: false,
@@ -301,17 +394,53 @@ describe('diagnostics:', function () {
       ).to.deep.equal(untitledCodes);
     });
 
-    it(`should respect the config file in the Workspace Folder root`, function () {
+    it(`should respect the nearest config file`, function () {
       const codes = getDiagnosticCodes(nestedDocument.uri);
 
       expect(
         codes,
-        `The diagnostics must ignore any non-root-level configuration files`,
-      ).to.include('MESSAGE_NAMES_UPPER_CAMEL_CASE');
+        `The diagnostics must respect the nearest configuration file`,
+      ).to.not.include('MESSAGE_NAMES_UPPER_CAMEL_CASE');
       expect(
         codes,
-        `The diagnostics must respect the root-level configuration file`,
-      ).to.not.include('FIELD_NAMES_LOWER_SNAKE_CASE');
+        `The diagnostics must ignore the outer configuration files`,
+      ).to.include('FIELD_NAMES_LOWER_SNAKE_CASE');
+    });
+
+    it(`should respect the config path setting`, async function () {
+      this.timeout(debugTimeout(6000));
+
+      const configuration = workspace.getConfiguration(
+        CONFIG_SECTION,
+        getWorkspaceFolder(DIAGNOSTICS_DIRECTORY),
+      );
+
+      try {
+        const diagnostics = getTargetDiagnostics(rootDocument.uri, nestedCodes);
+
+        await configuration.update(
+          'configPath',
+          `nested/${CONFIG_BASENAME}`,
+          ConfigurationTarget.WorkspaceFolder,
+        );
+
+        expect(
+          await diagnostics,
+          `The diagnostics must respect the configuration file from the setting`,
+        ).to.deep.equal(nestedCodes);
+      } finally {
+        const diagnostics = getTargetDiagnostics(
+          rootDocument.uri,
+          documentCodes,
+        );
+
+        await configuration.update(
+          'configPath',
+          undefined,
+          ConfigurationTarget.WorkspaceFolder,
+        );
+        await diagnostics;
+      }
     });
 
     it(`should follow the config file deletion and creation`, async function () {
@@ -320,7 +449,6 @@ describe('diagnostics:', function () {
         ...documentCodes,
       ];
       const rootCodes = getTargetDiagnostics(rootDocument.uri, targetCodes);
-      const nestedCodes = getTargetDiagnostics(nestedDocument.uri, targetCodes);
 
       await renameFile(rootConfigUri, rootConfigTargetUri);
 
@@ -329,9 +457,9 @@ describe('diagnostics:', function () {
         `The document '${rootDocument.uri.toString()}' must have the diagnostic previously removed via the config`,
       ).to.deep.equal(targetCodes);
       expect(
-        await nestedCodes,
-        `The document '${nestedDocument.uri.toString()}' must have the diagnostic previously removed via the config`,
-      ).to.deep.equal(targetCodes);
+        getDiagnosticCodes(nestedDocument.uri),
+        `The document '${nestedDocument.uri.toString()}' must keep following the nearest config`,
+      ).to.deep.equal(nestedCodes);
     });
 
     it(`should follow the config file content changes`, async function () {
@@ -344,10 +472,6 @@ describe('diagnostics:', function () {
         rootDocument.uri,
         targetCodes,
       );
-      const nestedDiagnostics = getTargetDiagnostics(
-        nestedDocument.uri,
-        targetCodes,
-      );
 
       const config = await workspace.openTextDocument(rootConfigUri);
 
@@ -367,7 +491,7 @@ describe('diagnostics:', function () {
       await workspace.applyEdit(edit);
       await workspace.save(config.uri);
 
-      let codes = await rootDiagnostics;
+      const codes = await rootDiagnostics;
 
       expect(codes, `The diagnostics must respect the added rule`).to.include(
         addedRule,
@@ -376,20 +500,10 @@ describe('diagnostics:', function () {
         codes,
         `The diagnostics must respect the preexisting rule`,
       ).to.not.include('FIELD_NAMES_LOWER_SNAKE_CASE');
-
-      codes = await nestedDiagnostics;
-
-      expect(
-        codes,
-        `The diagnostics must ignore any non-root-level configuration files`,
-      ).to.include('MESSAGE_NAMES_UPPER_CAMEL_CASE');
-      expect(codes, `The diagnostics must respect the added rule`).to.include(
-        addedRule,
-      );
       expect(
-        codes,
-        `The diagnostics must respect the preexisting rule`,
-      ).to.not.include('FIELD_NAMES_LOWER_SNAKE_CASE');
+        getDiagnosticCodes(nestedDocument.uri),
+        `The document '${nestedDocument.uri.toString()}' must ignore the outer config changes`,
+      ).to.deep.equal(nestedCodes);
     });
 
     it(`should follow the document renaming`, async function () {
@@ -477,5 +591,159 @@ describe('diagnostics:', function () {
         `The document '${rootDocument.uri.toString()}' must get the updated diagnostics`,
       ).to.deep.equal(targetCodes);
     });
+
+    it(`should lint only on save in 'onSave' run mode`, async function () {
+      this.timeout(debugTimeout(6000));
+
+      const configuration = workspace.getConfiguration(
+        CONFIG_SECTION,
+        getWorkspaceFolder(DIAGNOSTICS_DIRECTORY),
+      );
+      const configurationChange = promisifyEvent(
+        workspace.onDidChangeConfiguration,
+      );
+
+      await configuration.update(
+        'run',
+        'onSave',
+        ConfigurationTarget.WorkspaceFolder,
+      );
+      await configurationChange;
+
+      try {
+        await window.showTextDocument(rootDocument, {
+          preserveFocus: false,
+          preview: false,
+        });
+
+        const targetCodes = [
+          'ENUM_NAMES_UPPER_CAMEL_CASE',
+          'MESSAGE_NAMES_UPPER_CAMEL_CASE',
+        ];
+        const edit = new WorkspaceEdit();
+
+        edit.insert(
+          rootDocument.uri,
+          rootDocument.lineAt(rootDocument.lineCount - 1).range.end,
+          `enum enum_name {\n}\n`,
+        );
+
+        await workspace.applyEdit(edit);
+        await setTimeout(1000);
+
+        expect(
+          getDiagnosticCodes(rootDocument.uri),
+          `The unsaved changes must not be linted`,
+        ).to.deep.equal(documentCodes);
+
+        const refreshed = getTargetDiagnostics(rootDocument.uri, documentCodes);
+
+        await configuration.update(
+          'severity',
+          { '*': 'hint' },
+          ConfigurationTarget.WorkspaceFolder,
+        );
+
+        expect(
+          await refreshed,
+          `The unsaved changes must not be linted after the setting changes`,
+        ).to.deep.equal(documentCodes);
+        expect(
+          languages
+            .getDiagnostics(rootDocument.uri)
+            .map(({ severity }) => severity),
+          `The saved document must be linted with the changed setting`,
+        ).to.deep.equal([DiagnosticSeverity.Hint]);
+
+        const diagnostics = getTargetDiagnostics(rootDocument.uri, targetCodes);
+
+        await workspace.save(rootDocument.uri);
+
+        expect(
+          await diagnostics,
+          `The saved document must get the updated diagnostics`,
+        ).to.deep.equal(targetCodes);
+      } finally {
+        await configuration.update(
+          'severity',
+          undefined,
+          ConfigurationTarget.WorkspaceFolder,
+        );
+        await configuration.update(
+          'run',
+          undefined,
+          ConfigurationTarget.WorkspaceFolder,
+        );
+      }
+    });
+
+    it(`should follow the rule severity setting`, async function () {
+      this.timeout(debugTimeout(6000));
+
+      const rule = 'MESSAGE_NAMES_UPPER_CAMEL_CASE';
+      const configuration = workspace.getConfiguration(
+        CONFIG_SECTION,
+        getWorkspaceFolder(DIAGNOSTICS_DIRECTORY),
+      );
+
+      try {
+        let diagnostics = getTargetDiagnostics(rootDocument.uri, []);
+
+        await configuration.update(
+          'severity',
+          { [rule]: 'off' },
+          ConfigurationTarget.WorkspaceFolder,
+        );
+
+        expect(
+          await diagnostics,
+          `The rule turned off must have no diagnostics`,
+        ).to.deep.equal([]);
+
+        diagnostics = getTargetDiagnostics(rootDocument.uri, documentCodes);
+
+        await configuration.update(
+          'severity',
+          { '*': 'hint', [rule]: 'error' },
+          ConfigurationTarget.WorkspaceFolder,
+        );
+        await diagnostics;
+
+        expect(
+          languages
+            .getDiagnostics(rootDocument.uri)
+            .map(({ severity }) => severity),
+          `The rule severity must follow the setting`,
+        ).to.deep.equal([DiagnosticSeverity.Error]);
+
+        diagnostics = getTargetDiagnostics(rootDocument.uri, documentCodes);
+
+        await configuration.update(
+          'severity',
+          { '*': 'hint' },
+          ConfigurationTarget.WorkspaceFolder,
+        );
+        await diagnostics;
+
+        expect(
+          languages
+            .getDiagnostics(rootDocument.uri)
+            .map(({ severity }) => severity),
+          `The default severity setting must override the reported severity`,
+        ).to.deep.equal([DiagnosticSeverity.Hint]);
+      } finally {
+        const diagnostics = getTargetDiagnostics(
+          rootDocument.uri,
+          documentCodes,
+        );
+
+        await configuration.update(
+          'severity',
+          undefined,
+          ConfigurationTarget.WorkspaceFolder,
+        );
+        await diagnostics;
+      }
+    });
   });
 });
@@ -0,0 +1,147 @@
+import { expect } from 'chai';
+import { workspace } from 'vscode';
+
+import { SUPPORTED_LANGUAGE_ID } from '../../dist/constants.js';
+import { disableActions } from '../../dist/disable-directive.js';
+import { ProtolintDiagnostic } from '../../dist/rule-mapper.js';
+import { closeDocuments } from '../helpers.js';
+
+const RULE = 'FIELD_NAMES_LOWER_SNAKE_CASE';
+
+/**
+ * Applies the disable quick fix to the text without modifying the document.
+ *
+ * @param content The document text.
+ * @param line 1-based line number of the linting error.
+ * @param title The quick fix title ending.
+ * @returns The fixed text or `undefined` if there is no such quick fix.
+ */
+async function applyDisableAction(
+  content: string,
+  line: number,
+  title: string,
+): Promise<string | undefined> {
+  const document = await workspace.openTextDocument({
+    content,
+    language: SUPPORTED_LANGUAGE_ID,
+  });
+  const diagnostic = new ProtolintDiagnostic(document, {
+    column: 3,
+    filename: 'untitled.proto',
+    line,
+    message: 'Field name "someField" must be underscore_separated_names',
+    rule: RULE,
+  });
+  const action = disableActions(document, diagnostic).find((item) =>
+    item.title.endsWith(title),
+  );
+
+  if (action?.edit === undefined) {
+    return;
+  }
+
+  const edits = action.edit
+    .get(document.uri)
+    .toSorted(
+      (a, b) =>
+        document.offsetAt(b.range.start) - document.offsetAt(a.range.start),
+    );
+  let text = document.getText();
+
+  for (const edit of edits) {
+    text =
+      text.slice(0, document.offsetAt(edit.range.start)) +
+      edit.newText +
+      text.slice(document.offsetAt(edit.range.end));
+  }
+
+  return text;
+}
+
+describe('disable-directive:', function () {
+  after('Close documents', async function () {
+    await closeDocuments();
+  });
+
+  describe('#disableActions()', function () {
+    it('should disable the rule for this line', async function () {
+      expect(
+        await applyDisableAction(
+          'message A {\n  string someField = 1;\n}\n',
+          2,
+          'for this line',
+        ),
+      ).to.equal(
+        `message A {\n  string someField = 1; // protolint:disable:this ${RULE}\n}\n`,
+      );
+    });
+
+    it('should merge into the existing directive for this line', async function () {
+      expect(
+        await applyDisableAction(
+          'message A {\n  string someField = 1; // protolint:disable:this MAX_LINE_LENGTH\n}\n',
+          2,
+          'for this line',
+        ),
+      ).to.equal(
+        `message A {\n  string someField = 1; // protolint:disable:this MAX_LINE_LENGTH ${RULE}\n}\n`,
+      );
+    });
+
+    it('should not append the directive to the trailing comment', async function () {
+      const content = 'message A {\n  string someField = 1; // note\n}\n';
+
+      expect(await applyDisableAction(content, 2, 'for this line')).to.be
+        .undefined;
+      expect(await applyDisableAction(content, 2, 'for next line')).to.equal(
+        `message A {\n  // protolint:disable:next ${RULE}\n  string someField = 1; // note\n}\n`,
+      );
+    });
+
+    it('should disable the rule for next line keeping the indentation', async function () {
+      expect(
+        await applyDisableAction(
+          'message A {\n    string someField = 1;\n}\n',
+          2,
+          'for next line',
+        ),
+      ).to.equal(
+        `message A {\n    // protolint:disable:next ${RULE}\n    string someField = 1;\n}\n`,
+      );
+    });
+
+    it('should merge into the existing directive', async function () {
+      expect(
+        await applyDisableAction(
+          'message A {\n  // protolint:disable:next MAX_LINE_LENGTH\n  string someField = 1;\n}\n',
+          3,
+          'for next line',
+        ),
+      ).to.equal(
+        `message A {\n  // protolint:disable:next MAX_LINE_LENGTH ${RULE}\n  string someField = 1;\n}\n`,
+      );
+    });
+
+    it('should disable the rule for the entire file', async function () {
+      expect(
+        await applyDisableAction(
+          'message A {\n  string someField = 1;\n}\n',
+          2,
+          'for the entire file',
+        ),
+      ).to.equal(
+        `// protolint:disable ${RULE}\nmessage A {\n  string someField = 1;\n}\n// protolint:enable ${RULE}\n`,
+      );
+    });
+
+    it('should not disable the rule which is already disabled', async function () {
+      expect(
+        await applyDisableAction(
+          `message A {\n  string someField = 1; // protolint:disable:this ${RULE}\n}\n`,
+          2,
+          'for this line',
+        ),
+      ).to.be.undefined;
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import { expect } from 'chai';
+import { workspace } from 'vscode';
+
+import { SUPPORTED_LANGUAGE_ID } from '../../dist/constants.js';
+import {
+  renumberFieldsEdits,
+  reorderFieldsEdits,
+} from '../../dist/field-numbers.js';
+import { applyEdits, closeDocuments } from '../helpers.js';
+
+import type { TextDocument } from 'vscode';
+
+const CONTENT = `syntax = "proto3";
+
+message Sample { // Sample comment
+  reserved 2, 4 to 5;
+  reserved "legacy";
+
+  // Third
+  string third = 3;
+  // First
+  string first = 1; // Trailing
+  message Nested {
+    int32 inner = 7;
+  }
+  oneof choice {
+    string sixth = 6;
+  }
+}
+
+message Multiline {
+  reserved 1, // One
+    2, 3;
+  string b = 9;
+  int32 c = 8;
+}
+`;
+
+describe('field-numbers:', function () {
+  let document: TextDocument;
+  let offset: number;
+
+  before(async function () {
+    document = await workspace.openTextDocument({
+      content: CONTENT,
+      language: SUPPORTED_LANGUAGE_ID,
+    });
+    offset = CONTENT.indexOf('first = 1');
+  });
+
+  after(async function () {
+    await closeDocuments();
+  });
+
+  describe('#reorderFieldsEdits()', function () {
+    it('should move the fields with their comments', function () {
+      expect(
+        applyEdits(document, reorderFieldsEdits(document, offset)),
+      ).to.equal(
+        CONTENT.replace(
+          '  // Third\n  string third = 3;\n  // First\n  string first = 1; // Trailing\n',
+          '  // First\n  string first = 1; // Trailing\n  // Third\n  string third = 3;\n',
+        ),
+      );
+    });
+  });
+
+  describe('#renumberFieldsEdits()', function () {
+    it('should skip the reserved numbers', function () {
+      expect(
+        applyEdits(document, renumberFieldsEdits(document, offset)),
+      ).to.equal(
+        CONTENT.replace('third = 3', 'third = 1').replace(
+          'first = 1',
+          'first = 3',
+        ),
+      );
+    });
+
+    it('should skip the reserved numbers of the multi-line statement', function () {
+      expect(
+        applyEdits(
+          document,
+          renumberFieldsEdits(document, CONTENT.indexOf('b = 9')),
+        ),
+      ).to.equal(CONTENT.replace('b = 9', 'b = 4').replace('c = 8', 'c = 5'));
+    });
+
+    it('should skip the extension ranges', async function () {
+      const content = `syntax = "proto2";
+
+message Extendable {
+  extensions 1 to 2 [verification = UNVERIFIED];
+  optional string b = 9;
+  optional int32 c = 8;
+}
+`;
+      const extendable = await workspace.openTextDocument({
+        content,
+        language: SUPPORTED_LANGUAGE_ID,
+      });
+
+      expect(
+        applyEdits(
+          extendable,
+          renumberFieldsEdits(extendable, content.indexOf('b = 9')),
+        ),
+      ).to.equal(content.replace('b = 9', 'b = 3').replace('c = 8', 'c = 4'));
+    });
+
+    it('should return nothing outside of messages', function () {
+      expect(renumberFieldsEdits(document, 0)).to.be.empty;
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { expect } from 'chai';
+import { CancellationTokenSource, Uri, workspace } from 'vscode';
+
+import { fileRenameEdit } from '../../dist/file-rename.js';
+import {
+  appendWorkspaceFolders,
+  closeDocuments,
+  debugTimeout,
+  FIXTURES_DIRECTORY,
+  getDiagnosticCodes,
+  getTargetDiagnostics,
+  resetCommandConfig,
+  resetWorkspaceFolders,
+} from '../helpers.js';
+
+import type { TextDocument } from 'vscode';
+
+const FILE_RENAME_DIRECTORY = Uri.joinPath(FIXTURES_DIRECTORY, 'file_rename');
+
+const documentUri = Uri.joinPath(FILE_RENAME_DIRECTORY, 'a', 'old-name.proto');
+const targetUri = Uri.joinPath(FILE_RENAME_DIRECTORY, 'a', 'old_name.proto');
+const importerUri = Uri.joinPath(FILE_RENAME_DIRECTORY, 'importer.proto');
+
+/**
+ * Gets the replaced texts of the edit by the file URI.
+ */
+async function renameTexts(
+  document: TextDocument,
+  uri: Uri,
+): Promise<Record<string, string[]>> {
+  const edit = await fileRenameEdit(
+    { document, uri },
+    new CancellationTokenSource().token,
+  );
+
+  return Object.fromEntries(
+    edit
+      .entries()
+      .map(([fileUri, edits]) => [
+        fileUri.toString(),
+        edits.map((item) => item.newText),
+      ]),
+  );
+}
+
+describe('file-rename:', function () {
+  before('Initialize API-s and parameters', async function () {
+    this.timeout(debugTimeout(10_000));
+
+    await closeDocuments();
+    await resetCommandConfig();
+
+    await resetWorkspaceFolders();
+    await appendWorkspaceFolders([FILE_RENAME_DIRECTORY]);
+  });
+
+  after('file-rename tests teardown', async function () {
+    await closeDocuments();
+    await resetWorkspaceFolders();
+  });
+
+  describe('#fileRenameEdit()', function () {
+    let document: TextDocument;
+
+    before(async function () {
+      const diagnostics = getTargetDiagnostics(documentUri, [
+        'FILE_NAMES_LOWER_SNAKE_CASE',
+      ]);
+
+      document = await workspace.openTextDocument(documentUri);
+      await diagnostics;
+    });
+
+    it('should update the unambiguous imports of the file', async function () {
+      expect(await renameTexts(document, targetUri)).to.deep.equal({
+        [importerUri.toString()]: ['a/old_name.proto'],
+      });
+    });
+
+    it('should lint the renamed document', async function () {
+      this.timeout(debugTimeout(6000));
+
+      const diagnostics = getTargetDiagnostics(targetUri, []);
+      const edit = await fileRenameEdit(
+        { document, uri: targetUri },
+        new CancellationTokenSource().token,
+      );
+
+      await workspace.applyEdit(edit);
+
+      try {
+        expect(
+          await diagnostics,
+          `The renamed document must follow the file name rule`,
+        ).to.deep.equal([]);
+        expect(
+          getDiagnosticCodes(documentUri),
+          `There must be no diagnostics for the previous document path`,
+        ).to.deep.equal([]);
+      } finally {
+        const renamed = await workspace.openTextDocument(targetUri);
+
+        await workspace.applyEdit(
+          await fileRenameEdit(
+            { document: renamed, uri: documentUri },
+            new CancellationTokenSource().token,
+          ),
+        );
+        await workspace.save(importerUri);
+      }
+    });
+  });
+});
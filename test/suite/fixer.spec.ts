@@ -1,24 +1,39 @@
+import path from 'node:path';
+import { setTimeout } from 'node:timers/promises';
+
 import { expect } from 'chai';
-import { commands, Uri, window, workspace } from 'vscode';
+import {
+  CancellationTokenSource,
+  commands,
+  Range,
+  TextEdit,
+  Uri,
+  window,
+  workspace,
+} from 'vscode';
 
 import {
   EDITOR_COMMAND_AUTOFIX,
   SUPPORTED_LANGUAGE_ID,
 } from '../../dist/constants.js';
+import { testing } from '../../dist/fixer.js';
 import {
   appendWorkspaceFolders,
+  applyEdits,
   closeDocuments,
   debugTimeout,
   FIXTURES_DIRECTORY,
   getTargetDiagnostics,
+  getTestingApi,
   resetCommandConfig,
   resetWorkspaceFolders,
   setDocumentText,
 } from '../helpers.js';
 
-import type { TextDocument } from 'vscode';
+import type { CodeAction, TextDocument } from 'vscode';
 
 const FIXER_DIRECTORY = Uri.joinPath(FIXTURES_DIRECTORY, 'fixer');
+const FILES_DIRECTORY = Uri.joinPath(FIXER_DIRECTORY, 'files');
 const HYPHENATED_FIXTURE_BASENAME = 'fixable-file.proto';
 const EDITABLE_FIXTURE_BASENAME = 'to_edit.proto';
 
@@ -220,5 +235,199 @@ describe('fixer:', function () {
         `The rule removed via the config must not be autofixed`,
       ).to.equal(text);
     });
+
+    it(`should provide the source fix all action`, async function () {
+      const targetCodes: string[] = [];
+      const diagnostics = getTargetDiagnostics(
+        untitledDocument.uri,
+        targetCodes,
+      );
+      const actions = await commands.executeCommand<CodeAction[]>(
+        'vscode.executeCodeActionProvider',
+        untitledDocument.uri,
+        untitledDocument.lineAt(0).range,
+        'source.fixAll.protolint',
+      );
+      const [action] = actions;
+
+      expect(actions).to.have.lengthOf(1);
+      expect(action?.edit, `The action must have an edit`).not.to.be.undefined;
+
+      if (action?.edit !== undefined) {
+        await workspace.applyEdit(action.edit);
+      }
+
+      expect(await diagnostics, `All errors must be fixed`).to.deep.equal(
+        targetCodes,
+      );
+    });
+
+    describe('#autofixEdit()', function () {
+      it(`should apply the changes directly without the preview`, async function () {
+        const { range } = editedDocument.lineAt(2);
+        const edit = testing.autofixEdit(
+          [
+            {
+              document: editedDocument,
+              edits: [new TextEdit(range, 'message MessageName {')],
+              version: editedDocument.version,
+            },
+          ],
+          false,
+        );
+
+        expect(await workspace.applyEdit(edit)).to.be.true;
+        expect(editedDocument.lineAt(2).text).to.equal('message MessageName {');
+      });
+
+      it(`should require the confirmation in the preview`, async function () {
+        this.timeout(debugTimeout(6000));
+
+        const text = editedDocument.getText();
+        const { range } = editedDocument.lineAt(2);
+        const edit = testing.autofixEdit(
+          [
+            {
+              document: editedDocument,
+              edits: [new TextEdit(range, 'message MessageName {')],
+              version: editedDocument.version,
+            },
+          ],
+          true,
+        );
+        const applied = workspace.applyEdit(edit);
+        let result: 'pending' | boolean = 'pending';
+
+        // The preview is discarded as soon as it's shown.
+        while (result === 'pending') {
+          await commands.executeCommand('refactorPreview.discard');
+          result = await Promise.race([
+            applied,
+            setTimeout(100, 'pending' as const),
+          ]);
+        }
+
+        expect(await applied, `The discarded preview must not be applied`).to.be
+          .false;
+        expect(editedDocument.getText()).to.equal(text);
+      });
+    });
+
+    describe('#autofixFiles()', function () {
+      it(`should autofix the closed files without opening them`, async function () {
+        this.timeout(debugTimeout(6000));
+
+        const { fixer } = await getTestingApi();
+        const messages: (string | undefined)[] = [];
+        const autofixes =
+          (await fixer.autofixFiles(
+            [FILES_DIRECTORY, editedDocument.uri],
+            { report: ({ message }) => messages.push(message) },
+            new CancellationTokenSource().token,
+          )) ?? [];
+        const texts = Object.fromEntries(
+          autofixes.map(({ document, edits }) => [
+            path.basename(document.uri.fsPath),
+            applyEdits(document, edits),
+          ]),
+        );
+
+        expect(texts).to.deep.equal({
+          'closed_a.proto': 'syntax = "proto3";\n\nmessage ClosedA {}\n',
+          'closed_b.proto': 'syntax = "proto3";\n\nmessage ClosedB {}\n',
+          [EDITABLE_FIXTURE_BASENAME]: hyphenatedDocumentText.replace(
+            'message_name',
+            'MessageName',
+          ),
+        });
+        expect(messages.at(-1)).to.equal('Autofixing 2/3 files');
+        expect(
+          workspace.textDocuments.filter(({ uri }) =>
+            uri.path.startsWith(FILES_DIRECTORY.path),
+          ),
+          `The closed files must not be opened`,
+        ).to.be.empty;
+      });
+
+      it(`should discard the autofix of the closed file changed on disk`, async function () {
+        this.timeout(debugTimeout(6000));
+
+        const { fixer } = await getTestingApi();
+        const autofixes =
+          (await fixer.autofixFiles(
+            [FILES_DIRECTORY],
+            {
+              report: () => {
+                // The progress isn't checked.
+              },
+            },
+            new CancellationTokenSource().token,
+          )) ?? [];
+        const changedUri = Uri.joinPath(FILES_DIRECTORY, 'closed_a.proto');
+        const text = await workspace.fs.readFile(changedUri);
+
+        await workspace.fs.writeFile(
+          changedUri,
+          new TextEncoder().encode('syntax = "proto3";\n'),
+        );
+
+        try {
+          const stale = await Promise.all(
+            autofixes.map(async (autofix) => [
+              path.basename(autofix.document.uri.fsPath),
+              await testing.isStale(autofix),
+            ]),
+          );
+
+          expect(Object.fromEntries(stale)).to.deep.equal({
+            'closed_a.proto': true,
+            'closed_b.proto': false,
+          });
+        } finally {
+          await workspace.fs.writeFile(changedUri, text);
+        }
+      });
+
+      it(`should return nothing when canceled`, async function () {
+        const { fixer } = await getTestingApi();
+        const source = new CancellationTokenSource();
+        const autofixes = await fixer.autofixFiles(
+          [FILES_DIRECTORY],
+          {
+            report: ({ message }) => {
+              if (message?.startsWith('Autofixing') === true) {
+                source.cancel();
+              }
+            },
+          },
+          source.token,
+        );
+
+        expect(autofixes).to.be.undefined;
+      });
+
+      it(`should skip the selected files which aren't protobuf`, async function () {
+        const protobufUri = Uri.joinPath(FILES_DIRECTORY, 'closed_a.proto');
+        const files = await testing.findProtobufFiles(
+          [Uri.joinPath(FIXER_DIRECTORY, '.protolint.yaml'), protobufUri],
+          new CancellationTokenSource().token,
+        );
+
+        expect(files.map((uri) => uri.toString())).to.deep.equal([
+          protobufUri.toString(),
+        ]);
+      });
+
+      it(`should summarize the changes of all files`, function () {
+        const edit = new TextEdit(new Range(0, 0, 0, 0), '');
+
+        expect(
+          testing.autofixSummary([
+            { document: editedDocument, edits: [edit, edit], version: 1 },
+            { document: hyphenatedDocument, edits: [edit], version: 1 },
+          ]),
+        ).to.equal('Protolint: autofix changes 3 place(s) in 2 file(s).');
+      });
+    });
   });
 });
@@ -0,0 +1,48 @@
+import { expect } from 'chai';
+import { Range, workspace } from 'vscode';
+
+import { SUPPORTED_LANGUAGE_ID } from '../../dist/constants.js';
+import { groupToMessageEdit } from '../../dist/group-converter.js';
+import { closeDocuments } from '../helpers.js';
+
+import type { TextDocument } from 'vscode';
+
+const CONTENT = `syntax = "proto3";
+
+message SearchResponse {
+  repeated group Result = 1 { // Group comment
+    string url = 2;
+  }
+}
+`;
+
+describe('group-converter:', function () {
+  let document: TextDocument;
+
+  before(async function () {
+    document = await workspace.openTextDocument({
+      content: CONTENT,
+      language: SUPPORTED_LANGUAGE_ID,
+    });
+  });
+
+  after(async function () {
+    await closeDocuments();
+  });
+
+  describe('#groupToMessageEdit()', function () {
+    it('should replace the group with a message and a field', function () {
+      const edit = groupToMessageEdit(document, CONTENT.indexOf('group'));
+
+      expect(edit?.range).to.deep.equal(new Range(3, 2, 5, 3));
+      expect(edit?.newText).to.equal(
+        'message Result { // Group comment\n    string url = 2;\n  }\n  repeated Result result = 1;',
+      );
+    });
+
+    it('should return nothing outside of groups', function () {
+      expect(groupToMessageEdit(document, CONTENT.indexOf('url'))).to.be
+        .undefined;
+    });
+  });
+});
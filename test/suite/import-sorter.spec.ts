@@ -0,0 +1,63 @@
+import { expect } from 'chai';
+import { Range, workspace } from 'vscode';
+
+import { SUPPORTED_LANGUAGE_ID } from '../../dist/constants.js';
+import {
+  importGroupRange,
+  organizeImportsEdits,
+} from '../../dist/import-sorter.js';
+import { applyEdits, closeDocuments } from '../helpers.js';
+
+import type { TextDocument } from 'vscode';
+
+const CONTENT = `syntax = "proto3";
+
+import "z/b.proto"; // b
+import public "a/c.proto";
+import weak "m.proto";
+import "z/b.proto";
+// Other group
+import "y.proto";
+import "a/c.proto";
+`;
+
+describe('import-sorter:', function () {
+  let document: TextDocument;
+
+  before(async function () {
+    document = await workspace.openTextDocument({
+      content: CONTENT,
+      language: SUPPORTED_LANGUAGE_ID,
+    });
+  });
+
+  after(async function () {
+    await closeDocuments();
+  });
+
+  describe('#organizeImportsEdits()', function () {
+    it('should sort each group and remove the duplicates', function () {
+      expect(applyEdits(document, organizeImportsEdits(document))).to
+        .equal(`syntax = "proto3";
+
+import public "a/c.proto";
+import weak "m.proto";
+import "z/b.proto"; // b
+// Other group
+import "y.proto";
+`);
+    });
+  });
+
+  describe('#importGroupRange()', function () {
+    it('should return the range of the group with the line', function () {
+      expect(importGroupRange(document, 3)).to.deep.equal(
+        new Range(2, 0, 5, 19),
+      );
+    });
+
+    it('should return nothing for the line without imports', function () {
+      expect(importGroupRange(document, 0)).to.be.undefined;
+    });
+  });
+});
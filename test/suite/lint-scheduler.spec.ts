@@ -0,0 +1,77 @@
+import { setTimeout } from 'node:timers/promises';
+
+import { expect } from 'chai';
+import { Uri } from 'vscode';
+
+import { LintScheduler } from '../../dist/lint-scheduler.js';
+import { FIXTURES_DIRECTORY } from '../helpers.js';
+
+const DELAY = 50;
+
+const documentUri = Uri.joinPath(FIXTURES_DIRECTORY, 'scheduler.proto');
+
+describe('lint-scheduler:', function () {
+  describe('#LintScheduler', function () {
+    let scheduler: LintScheduler;
+
+    beforeEach('LintScheduler setup', function () {
+      scheduler = new LintScheduler();
+    });
+
+    afterEach('LintScheduler cleanup', function () {
+      scheduler.dispose();
+    });
+
+    it('should run only the last of the frequently scheduled operations', async function () {
+      const runs: number[] = [];
+
+      for (const run of [1, 2, 3]) {
+        scheduler.schedule(documentUri, DELAY, async () => {
+          runs.push(run);
+
+          await Promise.resolve();
+        });
+      }
+
+      await setTimeout(DELAY * 3);
+
+      expect(runs, 'Only the last operation must run').to.deep.equal([3]);
+    });
+
+    it('should abort the running operation when a new one is scheduled', async function () {
+      const { promise: started, resolve: start } =
+        Promise.withResolvers<boolean>();
+      let firstSignal: AbortSignal | undefined;
+
+      scheduler.schedule(documentUri, 0, async (signal) => {
+        firstSignal = signal;
+        start(true);
+
+        await setTimeout(DELAY * 3);
+      });
+      await started;
+
+      scheduler.schedule(documentUri, DELAY, async () => {
+        await Promise.resolve();
+      });
+
+      expect(firstSignal?.aborted, 'The running operation must be aborted').to
+        .be.true;
+    });
+
+    it('should not run the canceled operation', async function () {
+      let hasRun = false;
+
+      scheduler.schedule(documentUri, DELAY, async () => {
+        hasRun = true;
+
+        await Promise.resolve();
+      });
+      scheduler.cancel(documentUri);
+
+      await setTimeout(DELAY * 2);
+
+      expect(hasRun, 'The canceled operation must not run').to.be.false;
+    });
+  });
+});
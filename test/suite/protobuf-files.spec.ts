@@ -0,0 +1,42 @@
+import { expect } from 'chai';
+import { Uri } from 'vscode';
+
+import { importedFiles } from '../../dist/protobuf-files.js';
+import { parseSymbols } from '../../dist/protobuf-symbols.js';
+import { TextSnapshot } from '../../dist/text-snapshot.js';
+
+import type { IProtobufFile } from '../../dist/protobuf-files.js';
+
+const DIRECTORY = '/protos/';
+const IMPORTED_TEXTS = {
+  'b.proto': 'import public "c.proto";\nimport "d.proto";',
+  'c.proto': 'import public "e.proto";\nimport public "b.proto";',
+  'd.proto': '',
+  'e.proto': '',
+};
+
+function protobufFile([name, text]: [string, string]): IProtobufFile {
+  return {
+    document: new TextSnapshot(Uri.file(DIRECTORY + name), text),
+    importRoots: [],
+    symbols: parseSymbols(text),
+  };
+}
+
+describe('protobuf-files:', function () {
+  describe('#importedFiles()', function () {
+    it('should follow the public imports of the imported files', function () {
+      const file = protobufFile(['a.proto', 'import "b.proto";']);
+      const files = [
+        file,
+        ...Object.entries(IMPORTED_TEXTS).map((entry) => protobufFile(entry)),
+      ];
+
+      expect(
+        importedFiles(file, files).map(({ document }) =>
+          document.uri.path.slice(DIRECTORY.length),
+        ),
+      ).to.deep.equal(['b.proto', 'c.proto', 'e.proto']);
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import { expect } from 'chai';
+
+import {
+  parseStatements,
+  reorderStatements,
+  StatementKind,
+} from '../../dist/protobuf-statements.js';
+
+const TEXT = `// File header
+
+// Message comment
+message A {
+  string a = 1; // Field comment
+}
+
+option go_package = "example.com/a"; // Option comment
+package a;
+import "b.proto";
+syntax = "proto3";
+`;
+
+describe('protobuf-statements:', function () {
+  describe('#parseStatements()', function () {
+    it('should split the text into top-level statements', function () {
+      expect(
+        parseStatements(TEXT).map(({ kind, leadingStart, start }) => [
+          kind,
+          TEXT.slice(leadingStart, start),
+        ]),
+      ).to.deep.equal([
+        [StatementKind.Other, '// Message comment\n'],
+        [StatementKind.Option, ''],
+        [StatementKind.Package, ''],
+        [StatementKind.Import, ''],
+        [StatementKind.Syntax, ''],
+      ]);
+    });
+  });
+
+  describe('#reorderStatements()', function () {
+    it('should move the statements and keep the separators', function () {
+      expect(reorderStatements(TEXT)).to.equal(`// File header
+
+syntax = "proto3";
+
+package a;
+import "b.proto";
+option go_package = "example.com/a"; // Option comment
+// Message comment
+message A {
+  string a = 1; // Field comment
+}
+`);
+    });
+
+    it('should keep the ordered text', function () {
+      const ordered = reorderStatements(TEXT);
+
+      expect(reorderStatements(ordered)).to.equal(ordered);
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import { expect } from 'chai';
+
+import { parseSymbols, resolveReference } from '../../dist/protobuf-symbols.js';
+
+import type { IProtobufSymbols } from '../../dist/protobuf-symbols.js';
+
+const TEXT = `syntax = "proto3";
+package acme.api;
+import public "common/types.proto";
+
+// message Commented {}
+message Outer {
+  message Inner {
+    enum Kind { KIND_UNSPECIFIED = 0; }
+  }
+
+  Inner.Kind kind = 1 [(note) = { text: "Inner" }];
+  map<string, .acme.api.Outer> children = 2;
+  oneof value { Other other = 3; }
+}
+
+message Other {}
+
+service Api {
+  rpc Get(stream Outer.Inner) returns (Other);
+}
+`;
+
+describe('protobuf-symbols:', function () {
+  describe('#parseSymbols()', function () {
+    let symbols: IProtobufSymbols;
+
+    before(function () {
+      symbols = parseSymbols(TEXT);
+    });
+
+    it('should find the package and the imports', function () {
+      expect(symbols.package).to.equal('acme.api');
+      expect(
+        symbols.imports.map(({ modifier, path }) => [modifier, path]),
+      ).to.deep.equal([['public', 'common/types.proto']]);
+    });
+
+    it('should find the nested declarations', function () {
+      expect(
+        symbols.declarations.map(({ fullName, kind }) => [fullName, kind]),
+      ).to.deep.equal([
+        ['acme.api.Outer', 'message'],
+        ['acme.api.Outer.Inner', 'message'],
+        ['acme.api.Outer.Inner.Kind', 'enum'],
+        ['acme.api.Other', 'message'],
+        ['acme.api.Api', 'service'],
+      ]);
+    });
+
+    it('should find the type references with their scopes', function () {
+      expect(
+        symbols.references.map(({ absolute, parts, scope }) => [
+          `${absolute ? '.' : ''}${parts.map(({ text }) => text).join('.')}`,
+          scope,
+        ]),
+      ).to.deep.equal([
+        ['Inner.Kind', 'acme.api.Outer'],
+        ['.acme.api.Outer', 'acme.api.Outer'],
+        ['Other', 'acme.api.Outer'],
+        ['Outer.Inner', 'acme.api'],
+        ['Other', 'acme.api'],
+      ]);
+    });
+  });
+
+  describe('#resolveReference()', function () {
+    const names = new Set([
+      'acme',
+      'acme.api',
+      'acme.api.Outer',
+      'acme.api.Outer.Inner',
+      'acme.api.Outer.Outer',
+    ]);
+    const isDefined = (name: string): boolean => names.has(name);
+
+    it('should search the first name part from the innermost scope', function () {
+      expect(
+        resolveReference(
+          {
+            absolute: false,
+            parts: [{ end: 5, start: 0, text: 'Outer' }],
+            scope: 'acme.api.Outer',
+          },
+          isDefined,
+        ),
+      ).to.equal('acme.api.Outer.Outer');
+    });
+
+    it('should not fall back to the outer scope for the rest of the name', function () {
+      expect(
+        resolveReference(
+          {
+            absolute: false,
+            parts: [
+              { end: 5, start: 0, text: 'Outer' },
+              { end: 11, start: 6, text: 'Inner' },
+            ],
+            scope: 'acme.api.Outer',
+          },
+          isDefined,
+        ),
+      ).to.be.undefined;
+    });
+
+    it('should resolve the fully-qualified name as is', function () {
+      expect(
+        resolveReference(
+          {
+            absolute: true,
+            parts: [
+              { end: 4, start: 0, text: 'acme' },
+              { end: 8, start: 5, text: 'api' },
+              { end: 14, start: 9, text: 'Outer' },
+            ],
+            scope: 'acme.api.Outer',
+          },
+          isDefined,
+        ),
+      ).to.equal('acme.api.Outer');
+    });
+  });
+});
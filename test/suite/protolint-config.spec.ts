@@ -0,0 +1,167 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+
+import { expect } from 'chai';
+import { Uri } from 'vscode';
+
+import {
+  deriveRulesConfig,
+  getFileConfig,
+} from '../../dist/protolint-config.js';
+import { FIXTURES_DIRECTORY } from '../helpers.js';
+
+const CONFIG_URI = Uri.joinPath(
+  FIXTURES_DIRECTORY,
+  'diagnostics',
+  '.protolint.yaml',
+);
+const FOLDER_FIXTURE = Uri.joinPath(FIXTURES_DIRECTORY, 'folder');
+const EXCLUDE_CONFIG = `lint:
+  directories:
+    exclude:
+      - ./vendor
+      - third_party/
+  files:
+    exclude:
+      - ./generated/a.proto
+      - generated//b.proto
+  ignores:
+    - id: ENUM_NAMES_UPPER_CAMEL_CASE
+      files:
+        - ./legacy/c.proto
+`;
+const FULL_SYNTAX_CONFIG = `lint:
+  rules_option:
+    max_line_length: {max_chars: 120, tab_chars: 2}
+    file_names_lower_snake_case:
+      excludes: &generated
+        - generated/a.proto
+  files:
+    exclude: *generated
+  ignores:
+    - id: ENUM_NAMES_UPPER_CAMEL_CASE
+      files: [legacy/b.proto]
+  # A block scalar isn't read by protolint, but it's valid YAML.
+  note: |
+    # not a comment
+`;
+
+describe('protolint-config:', function () {
+  describe('#deriveRulesConfig()', function () {
+    it('should apply only the rules without the original config', async function () {
+      const config = await deriveRulesConfig(undefined, ['INDENT']);
+
+      expect(
+        config.result === 'success' && JSON.parse(config.value),
+      ).to.deep.equal({
+        lint: { rules: { add: ['INDENT'], no_default: true } },
+      });
+    });
+
+    it('should keep the other settings of the original config', async function () {
+      const config = await deriveRulesConfig(CONFIG_URI.fsPath, [
+        'ENUM_NAMES_UPPER_CAMEL_CASE',
+        'ORDER',
+      ]);
+
+      expect(
+        config.result === 'success' && JSON.parse(config.value),
+      ).to.deep.equal({
+        lint: {
+          directories: { exclude: ['excluded'] },
+          rules: {
+            add: ['ENUM_NAMES_UPPER_CAMEL_CASE', 'ORDER'],
+            no_default: true,
+          },
+        },
+      });
+    });
+
+    it('should fail for the missing config', async function () {
+      const config = await deriveRulesConfig(
+        Uri.joinPath(FIXTURES_DIRECTORY, 'missing.yaml').fsPath,
+        ['INDENT'],
+      );
+
+      expect(config).to.have.nested.property(
+        'error.code',
+        'CONFIG_READ_FAILED',
+      );
+    });
+  });
+
+  describe('#getFileConfig()', function () {
+    let directory: string;
+    let configPath: string;
+    let fullSyntaxConfigPath: string;
+
+    before(async function () {
+      directory = await mkdtemp(path.join(tmpdir(), 'protolint-config-'));
+      configPath = path.join(directory, '.protolint.yaml');
+      fullSyntaxConfigPath = path.join(directory, 'protolint.yaml');
+      await writeFile(configPath, EXCLUDE_CONFIG);
+      await writeFile(fullSyntaxConfigPath, FULL_SYNTAX_CONFIG);
+    });
+
+    after(async function () {
+      await rm(directory, { force: true, recursive: true });
+    });
+
+    it('should exclude the files of the normalized directories', async function () {
+      for (const file of ['vendor/a.proto', 'third_party/nested/b.proto']) {
+        const config = await getFileConfig(
+          Uri.joinPath(FOLDER_FIXTURE, file),
+          configPath,
+        );
+
+        expect(config.excluded, file).to.be.true;
+      }
+    });
+
+    it('should not exclude the directories with the same prefix', async function () {
+      const config = await getFileConfig(
+        Uri.joinPath(FOLDER_FIXTURE, 'vendor_extra', 'a.proto'),
+        configPath,
+      );
+
+      expect(config.excluded).to.be.false;
+    });
+
+    it('should exclude and ignore the normalized files', async function () {
+      for (const file of ['generated/a.proto', 'generated/b.proto']) {
+        const config = await getFileConfig(
+          Uri.joinPath(FOLDER_FIXTURE, file),
+          configPath,
+        );
+
+        expect(config.excluded, file).to.be.true;
+      }
+
+      const config = await getFileConfig(
+        Uri.joinPath(FOLDER_FIXTURE, 'legacy', 'c.proto'),
+        configPath,
+      );
+
+      expect([...config.ignoredRules]).to.deep.equal([
+        'ENUM_NAMES_UPPER_CAMEL_CASE',
+      ]);
+    });
+
+    it('should read the config with flow mappings, anchors and block scalars', async function () {
+      const excluded = await getFileConfig(
+        Uri.joinPath(FOLDER_FIXTURE, 'generated', 'a.proto'),
+        fullSyntaxConfigPath,
+      );
+      const ignored = await getFileConfig(
+        Uri.joinPath(FOLDER_FIXTURE, 'legacy', 'b.proto'),
+        fullSyntaxConfigPath,
+      );
+
+      expect(excluded.excluded).to.be.true;
+      expect([...ignored.ignoredRules]).to.deep.equal([
+        'ENUM_NAMES_UPPER_CAMEL_CASE',
+      ]);
+    });
+  });
+});
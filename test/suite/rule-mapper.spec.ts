@@ -1,15 +1,18 @@
 /* eslint-disable mocha/no-setup-in-describe */
 
 import { expect } from 'chai';
-import { Range, workspace } from 'vscode';
+import { CancellationTokenSource, Range, workspace } from 'vscode';
 
 // https://github.com/microsoft/vscode-test/issues/265#issuecomment-2073615877
 // Probably, paths to the app code unfortunately should have `dist` path.
+import { SUPPORTED_LANGUAGE_ID } from '../../dist/constants.js';
 import {
   codeActions,
+  fixAllActions,
   ProtolintDiagnostic,
   testing,
 } from '../../dist/rule-mapper.js';
+import { TypeRenameAction, typeRenameEdit } from '../../dist/type-rename.js';
 import {
   closeDocuments,
   codeActionAssertion,
@@ -402,6 +405,41 @@ describe('rule-mapper:', function () {
     });
   });
 
+  describe('#reportedRange()', function () {
+    describe('when the linter reports the region end column', function () {
+      it('should return the reported region', function () {
+        const item: IJsonLintsItem = {
+          column: 9,
+          endColumn: 22,
+          endLine: 40,
+          filename: RULES_FIXTURE_BASENAME,
+          line: 40,
+          message: 'foo',
+          rule: 'MESSAGE_NAMES_UPPER_CAMEL_CASE',
+        };
+
+        expect(testing.reportedRange(document, item)).to.deep.equal(
+          new Range(39, 8, 39, 21),
+        );
+      });
+    });
+
+    describe('when the linter reports the region start only', function () {
+      it('should return undefined', function () {
+        const item: IJsonLintsItem = {
+          column: 9,
+          endLine: 40,
+          filename: RULES_FIXTURE_BASENAME,
+          line: 40,
+          message: 'foo',
+          rule: 'MESSAGE_NAMES_UPPER_CAMEL_CASE',
+        };
+
+        expect(testing.reportedRange(document, item)).to.be.undefined;
+      });
+    });
+  });
+
   describe('#diagnosticBase() and codeActions()', function () {
     describe('an unknown rule', function () {
       const item: IJsonLintsItem = {
@@ -428,6 +466,29 @@ describe('rule-mapper:', function () {
           codeActions(document, new ProtolintDiagnostic(document, item)),
         ).to.deep.equal([]);
       });
+
+      it('should link the reported rule documentation', function () {
+        const helpUri = 'https://example.com/rules#new_rule';
+        const { code } = new ProtolintDiagnostic(document, {
+          ...item,
+          helpUri,
+        });
+
+        expect(code).to.have.property('value', item.rule);
+        expect(code).to.have.nested.property('target.authority', 'example.com');
+        expect(code).to.have.nested.property('target.fragment', 'new_rule');
+      });
+
+      it('should show the reported rule description', function () {
+        const { relatedInformation } = new ProtolintDiagnostic(document, {
+          ...item,
+          description: 'Verifies new things',
+        });
+
+        expect(relatedInformation?.map(({ message }) => message)).to.deep.equal(
+          ['NEW_RULE: Verifies new things'],
+        );
+      });
     });
 
     describe('an underlying code actions builder function returned an error', function () {
@@ -448,4 +509,135 @@ describe('rule-mapper:', function () {
       });
     });
   });
+
+  describe('#codeActions()', function () {
+    it('should insert the comment stub above the declaration', function () {
+      const [action] = codeActions(
+        document,
+        new ProtolintDiagnostic(document, {
+          column: 3,
+          filename: RULES_FIXTURE_BASENAME,
+          line: 84,
+          message: 'Field "someArray" should have a comment',
+          rule: 'FIELDS_HAVE_COMMENT',
+        }),
+      );
+      const [edit] = action?.edit?.get(document.uri) ?? [];
+
+      expect(edit?.range).to.deep.equal(new Range(83, 0, 83, 0));
+      expect(edit?.newText).to.equal('  // someArray ...\n');
+    });
+
+    it('should insert the Go style comment above the leading comments', function () {
+      const [action] = codeActions(
+        document,
+        new ProtolintDiagnostic(document, {
+          column: 31,
+          filename: RULES_FIXTURE_BASENAME,
+          line: 75,
+          message:
+            'Field "element" should have a comment of the form "// element ..."',
+          rule: 'FIELDS_HAVE_COMMENT',
+        }),
+      );
+      const [edit] = action?.edit?.get(document.uri) ?? [];
+
+      expect(edit?.range).to.deep.equal(new Range(73, 0, 73, 0));
+      expect(edit?.newText).to.equal('  // element ...\n');
+    });
+  });
+
+  describe('#fixAllActions()', function () {
+    it('should fix all problems of the rule with one edit', function () {
+      const rule = 'FIELD_NAMES_LOWER_SNAKE_CASE';
+      const ruleDiagnostics = protolintDiagnostics.filter(
+        ({ error }) => error.rule === rule,
+      );
+      const [action] = fixAllActions(document, rule, protolintDiagnostics);
+      const edits = action?.edit?.get(document.uri) ?? [];
+
+      expect(action?.diagnostics).to.have.lengthOf(ruleDiagnostics.length);
+      expect(edits.map((edit) => edit.newText)).to.include.members([
+        'some_array',
+        'some_more_arrays',
+        'top_content',
+      ]);
+
+      for (const [index, edit] of edits.slice(1).entries()) {
+        expect(
+          edit.range.start.isAfterOrEqual(
+            edits[index]?.range.end ?? edit.range.start,
+          ),
+          'The edits must not overlap',
+        ).to.be.true;
+      }
+    });
+
+    for (const [rule, kind] of [
+      ['MESSAGE_NAMES_UPPER_CAMEL_CASE', 'Message'],
+      ['ENUM_NAMES_UPPER_CAMEL_CASE', 'Enum'],
+    ] as const) {
+      it(`should rename all types of ${rule} with the references`, async function () {
+        const keyword = kind.toLowerCase();
+        const content = `syntax = "proto3";
+
+${keyword} first_type {}
+${keyword} second_type {}
+message Holder {
+  first_type first = 1;
+  second_type second = 2;
+}
+`;
+        const typeDocument = await workspace.openTextDocument({
+          content,
+          language: SUPPORTED_LANGUAGE_ID,
+        });
+        const typeDiagnostics = (
+          [
+            ['first_type', 'FirstType', 3],
+            ['second_type', 'SecondType', 4],
+          ] as const
+        ).map(
+          ([name, fix, line]) =>
+            new ProtolintDiagnostic(typeDocument, {
+              column: 1,
+              filename: 'untitled.proto',
+              line,
+              message: `${kind} name "${name}" must be UpperCamelCase like "${fix}"`,
+              rule,
+            }),
+        );
+        const [action] = fixAllActions(typeDocument, rule, typeDiagnostics);
+
+        expect(action).to.be.instanceOf(TypeRenameAction);
+
+        const edit = await typeRenameEdit(
+          (action as TypeRenameAction).renames,
+          new CancellationTokenSource().token,
+        );
+
+        expect(action?.diagnostics).to.deep.equal(typeDiagnostics);
+        expect(
+          edit
+            .get(typeDocument.uri)
+            .map((item) => [item.range.start.line, item.newText]),
+        ).to.have.deep.members([
+          [2, 'FirstType'],
+          [3, 'SecondType'],
+          [5, 'FirstType'],
+          [6, 'SecondType'],
+        ]);
+      });
+    }
+
+    it('should return no code actions for a single problem', function () {
+      expect(
+        fixAllActions(
+          document,
+          'FILE_NAMES_LOWER_SNAKE_CASE',
+          protolintDiagnostics,
+        ),
+      ).to.be.an('array').that.is.empty;
+    });
+  });
 });
@@ -0,0 +1,115 @@
+import { expect } from 'chai';
+
+import {
+  ParseSarifErrorCode,
+  parseSarifStderr,
+} from '../../dist/sarif-report-parser.js';
+
+const SARIF_REPORT = {
+  runs: [
+    {
+      results: [
+        {
+          level: 'warning',
+          locations: [
+            {
+              physicalLocation: {
+                artifactLocation: { uri: 'path/to/a.proto' },
+                region: {
+                  endColumn: 22,
+                  endLine: 40,
+                  startColumn: 9,
+                  startLine: 40,
+                },
+              },
+            },
+          ],
+          message: {
+            text: 'Message name "trickyMsgName" must be UpperCamelCase',
+          },
+          ruleId: 'MESSAGE_NAMES_UPPER_CAMEL_CASE',
+          ruleIndex: 0,
+        },
+        {
+          locations: [
+            {
+              physicalLocation: {
+                artifactLocation: { uri: 'path/to/b.proto' },
+                region: { endLine: 3, startColumn: 1, startLine: 3 },
+              },
+            },
+          ],
+          message: { text: 'Found an incorrect indentation style' },
+          ruleId: 'INDENT',
+        },
+      ],
+      tool: {
+        driver: {
+          name: 'protolint',
+          rules: [
+            {
+              helpUri: 'https://example.com/rules#message_names',
+              id: 'MESSAGE_NAMES_UPPER_CAMEL_CASE',
+              shortDescription: { text: 'Verifies message names' },
+            },
+            {
+              defaultConfiguration: { level: 'error' },
+              id: 'INDENT',
+            },
+          ],
+        },
+      },
+    },
+  ],
+  version: '2.1.0',
+};
+
+describe('sarif-report-parser:', function () {
+  describe(`#parseSarifStderr()`, function () {
+    it(`should convert SARIF results to linting errors`, function () {
+      expect(parseSarifStderr(JSON.stringify(SARIF_REPORT))).to.deep.equal({
+        result: 'success',
+        value: [
+          {
+            column: 9,
+            description: 'Verifies message names',
+            endColumn: 22,
+            endLine: 40,
+            filename: 'path/to/a.proto',
+            helpUri: 'https://example.com/rules#message_names',
+            line: 40,
+            message: 'Message name "trickyMsgName" must be UpperCamelCase',
+            rule: 'MESSAGE_NAMES_UPPER_CAMEL_CASE',
+            severity: 'warning',
+          },
+          {
+            column: 1,
+            endLine: 3,
+            filename: 'path/to/b.proto',
+            line: 3,
+            message: 'Found an incorrect indentation style',
+            rule: 'INDENT',
+          },
+        ],
+      });
+    });
+
+    it(`should report invalid JSON`, function () {
+      expect(parseSarifStderr('{')).to.have.nested.property(
+        'error.code',
+        ParseSarifErrorCode.Failed,
+      );
+    });
+
+    it(`should report results without location`, function () {
+      const report = {
+        runs: [{ results: [{ message: { text: 'foo' }, ruleId: 'INDENT' }] }],
+      };
+
+      expect(parseSarifStderr(JSON.stringify(report))).to.deep.equal({
+        error: { code: ParseSarifErrorCode.UnexpectedSchema },
+        result: 'error',
+      });
+    });
+  });
+});
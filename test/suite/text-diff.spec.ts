@@ -0,0 +1,33 @@
+import { expect } from 'chai';
+
+import { diffTexts } from '../../dist/text-diff.js';
+
+describe('text-diff:', function () {
+  describe('#diffTexts()', function () {
+    it('should not change the same text', function () {
+      expect(diffTexts('message A {}\n', 'message A {}\n')).to.be.empty;
+    });
+
+    it('should change only the different characters', function () {
+      expect(
+        diffTexts(
+          'message foo_bar {\n  int32 x = 1;\n}\n',
+          'message FooBar {\n  int32 x = 1;\n}\n',
+        ),
+      ).to.deep.equal([{ end: 13, start: 8, text: 'FooB' }]);
+    });
+
+    it('should change the separate lines separately', function () {
+      expect(diffTexts('a\nb\nc\nd\n', 'a\nB\nc\nd\ne\n')).to.deep.equal([
+        { end: 3, start: 2, text: 'B' },
+        { end: 8, start: 8, text: 'e\n' },
+      ]);
+    });
+
+    it('should remove the lines', function () {
+      expect(diffTexts('a\nb\nc\n', 'a\nc\n')).to.deep.equal([
+        { end: 4, start: 2, text: '' },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,175 @@
+import { expect } from 'chai';
+import { workspace } from 'vscode';
+
+import { SUPPORTED_LANGUAGE_ID } from '../../dist/constants.js';
+import {
+  findDirectives,
+  stripDirectives,
+  unusedDirectiveActions,
+  unusedDirectiveDiagnostics,
+} from '../../dist/unused-directives.js';
+import { closeDocuments } from '../helpers.js';
+
+import type { TextDocument } from 'vscode';
+
+import type { IJsonLintsItem } from '../../dist/json-report-parser.js';
+
+const CONTENT = `// protolint:disable MAX_LINE_LENGTH
+message A {
+  // protolint:disable:next FIELD_NAMES_LOWER_SNAKE_CASE INDENT
+  string someField = 1;
+  string other_field = 2; // protolint:disable:this FIELD_NAMES_LOWER_SNAKE_CASE
+}
+`;
+
+/**
+ * Applies the unused directive quick fix to the text without modifying the
+ * document.
+ *
+ * @param document The document with the directives.
+ * @param diagnosticIndex The index of the unused directive diagnostic.
+ * @param items The linting errors of the text without directives.
+ * @returns The fixed text or `undefined` if there is no such quick fix.
+ */
+function applyAction(
+  document: TextDocument,
+  diagnosticIndex: number,
+  items: IJsonLintsItem[],
+): string | undefined {
+  const diagnostic = unusedDirectiveDiagnostics(
+    document,
+    findDirectives(document),
+    items,
+  ).at(diagnosticIndex);
+
+  if (diagnostic === undefined) {
+    return;
+  }
+
+  const edit = unusedDirectiveActions(document, diagnostic)
+    .at(0)
+    ?.edit?.get(document.uri)
+    .at(0);
+
+  if (edit === undefined) {
+    return;
+  }
+
+  const text = document.getText();
+
+  return (
+    text.slice(0, document.offsetAt(edit.range.start)) +
+    edit.newText +
+    text.slice(document.offsetAt(edit.range.end))
+  );
+}
+
+describe('unused-directives:', function () {
+  let document: TextDocument;
+
+  before('Open document', async function () {
+    document = await workspace.openTextDocument({
+      content: CONTENT,
+      language: SUPPORTED_LANGUAGE_ID,
+    });
+  });
+
+  after('Close documents', async function () {
+    await closeDocuments();
+  });
+
+  describe('#stripDirectives()', function () {
+    it('should replace the directives with spaces', function () {
+      const stripped = stripDirectives(document, findDirectives(document));
+
+      expect(stripped.split('\n')).to.deep.equal([
+        ' '.repeat(36),
+        'message A {',
+        ' '.repeat(63),
+        '  string someField = 1;',
+        '  string other_field = 2; ' + ' '.repeat(54),
+        '}',
+        '',
+      ]);
+    });
+
+    it('should keep the lines of the multi-line block directives', async function () {
+      const blockDocument = await workspace.openTextDocument({
+        content: `/* protolint:disable:next MESSAGE_NAMES_UPPER_CAMEL_CASE
+   Legacy name */
+message a_b {}
+`,
+        language: SUPPORTED_LANGUAGE_ID,
+      });
+      const stripped = stripDirectives(
+        blockDocument,
+        findDirectives(blockDocument),
+      );
+
+      expect(stripped.split('\n')).to.deep.equal([
+        '/*' + ' '.repeat(54),
+        '   Legacy name */',
+        'message a_b {}',
+        '',
+      ]);
+    });
+  });
+
+  describe('#unusedDirectiveDiagnostics()', function () {
+    it('should report the directive rules without linting errors', function () {
+      const diagnostics = unusedDirectiveDiagnostics(
+        document,
+        findDirectives(document),
+        [
+          {
+            column: 3,
+            filename: 'untitled.proto',
+            line: 4,
+            message:
+              'Field name "someField" must be underscore_separated_names',
+            rule: 'FIELD_NAMES_LOWER_SNAKE_CASE',
+          },
+        ],
+      );
+
+      expect(
+        diagnostics.map(({ range, rules }) => [range.start.line, rules]),
+      ).to.deep.equal([
+        [0, ['MAX_LINE_LENGTH']],
+        [2, ['INDENT']],
+        [4, ['FIELD_NAMES_LOWER_SNAKE_CASE']],
+      ]);
+    });
+  });
+
+  describe('#unusedDirectiveActions()', function () {
+    it('should remove the whole directive line', function () {
+      expect(applyAction(document, 0, [])).to.equal(
+        CONTENT.slice(CONTENT.indexOf('\n') + 1),
+      );
+    });
+
+    it('should remove the unused rule from the directive', function () {
+      const lint = {
+        column: 3,
+        filename: 'untitled.proto',
+        line: 4,
+        message: 'Field name "someField" must be underscore_separated_names',
+        rule: 'FIELD_NAMES_LOWER_SNAKE_CASE',
+      };
+
+      expect(applyAction(document, 1, [lint])).to.equal(
+        CONTENT.replace(' INDENT', ''),
+      );
+    });
+
+    it('should remove the trailing directive comment', function () {
+      expect(applyAction(document, 2, [])).to.equal(
+        CONTENT.replace(
+          ' // protolint:disable:this FIELD_NAMES_LOWER_SNAKE_CASE',
+          '',
+        ),
+      );
+    });
+  });
+});
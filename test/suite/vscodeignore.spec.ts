@@ -6,7 +6,10 @@ import { expect } from 'chai';
 import package_ from '../../package.json' with { type: 'json' };
 import { debugTimeout, PROJECT_ROOT } from '../helpers.js';
 
-const { icon, main } = package_;
+const { dependencies, icon, main } = package_;
+const dependencyFiles = Object.keys(dependencies).map(
+  (dependency) => `node_modules/${dependency}/package.json`,
+);
 
 describe(`'.vscodeignore' and package files`, function () {
   let actualFiles: string[];
@@ -19,6 +22,7 @@ describe(`'.vscodeignore' and package files`, function () {
     main,
     'package.json',
     'README.md',
+    ...dependencyFiles,
   ]);
 
   before(`Initialize API-s and parameters`, async function () {
@@ -58,6 +62,13 @@ describe(`'.vscodeignore' and package files`, function () {
     ).to.include(icon);
   });
 
+  it(`runtime dependencies should be included`, function () {
+    expect(
+      actualFiles,
+      `The extension package must include the runtime dependencies`,
+    ).to.include.members(dependencyFiles);
+  });
+
   it(`files with undesired extensions should not be included`, function () {
     const undesiredExtensions = [
       '.code-workspace',
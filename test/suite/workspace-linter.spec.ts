@@ -0,0 +1,112 @@
+import { expect } from 'chai';
+import { Uri, workspace } from 'vscode';
+
+import {
+  COMMAND_LINT_WORKSPACE,
+  RUNTIME_ERROR_CODE,
+} from '../../dist/constants.js';
+import { executeCommand } from '../../dist/helpers.js';
+import {
+  appendWorkspaceFolders,
+  closeDocuments,
+  debugTimeout,
+  FIXTURES_DIRECTORY,
+  getDiagnosticCodes,
+  getTargetDiagnostics,
+  resetCommandConfig,
+  resetWorkspaceFolders,
+} from '../helpers.js';
+
+const WORKSPACE_LINTER_DIRECTORY = Uri.joinPath(
+  FIXTURES_DIRECTORY,
+  'workspace_linter',
+);
+
+const flaggedFileUri = Uri.joinPath(
+  WORKSPACE_LINTER_DIRECTORY,
+  'flagged.proto',
+);
+const clearFileUri = Uri.joinPath(
+  WORKSPACE_LINTER_DIRECTORY,
+  'nested',
+  'clear.proto',
+);
+const brokenFileUri = Uri.joinPath(WORKSPACE_LINTER_DIRECTORY, 'broken.proto');
+
+const flaggedCodes = ['MESSAGE_NAMES_UPPER_CAMEL_CASE'];
+
+function isOpened(uri: Uri): boolean {
+  return workspace.textDocuments.some(
+    (document) => document.uri.toString() === uri.toString(),
+  );
+}
+
+describe('workspace-linter:', function () {
+  before('Initialize API-s and parameters', async function () {
+    this.timeout(debugTimeout(10_000));
+
+    await closeDocuments();
+    await resetCommandConfig();
+
+    await resetWorkspaceFolders();
+    await appendWorkspaceFolders([WORKSPACE_LINTER_DIRECTORY]);
+  });
+
+  after('workspace-linter tests teardown', async function () {
+    await closeDocuments();
+    await resetWorkspaceFolders();
+  });
+
+  describe('#WorkspaceLinter', function () {
+    let initialFlaggedText: Uint8Array;
+
+    before('WorkspaceLinter tests setup', async function () {
+      this.timeout(debugTimeout(10_000));
+
+      initialFlaggedText = await workspace.fs.readFile(flaggedFileUri);
+
+      await executeCommand(COMMAND_LINT_WORKSPACE);
+    });
+
+    after('WorkspaceLinter tests teardown', async function () {
+      await workspace.fs.writeFile(flaggedFileUri, initialFlaggedText);
+    });
+
+    it('should set diagnostics for the files which are not opened', function () {
+      for (const uri of [flaggedFileUri, clearFileUri, brokenFileUri]) {
+        expect(isOpened(uri), `The file '${uri.fsPath}' must not be opened`).to
+          .be.false;
+      }
+
+      expect(
+        getDiagnosticCodes(flaggedFileUri),
+        'The file with problems must have diagnostics',
+      ).to.deep.equal(flaggedCodes);
+      expect(
+        getDiagnosticCodes(clearFileUri),
+        'The file in the nested directory must have no diagnostics',
+      ).to.be.an('array').that.is.empty;
+      expect(
+        getDiagnosticCodes(brokenFileUri),
+        'The file with a syntax error must have the runtime error diagnostic',
+      ).to.deep.equal([RUNTIME_ERROR_CODE]);
+    });
+
+    it('should refresh diagnostics when the file is changed on disk', async function () {
+      const diagnostics = getTargetDiagnostics(flaggedFileUri, []);
+      const fixedText = new TextDecoder()
+        .decode(initialFlaggedText)
+        .replace('messageName', 'MessageName');
+
+      await workspace.fs.writeFile(
+        flaggedFileUri,
+        new TextEncoder().encode(fixedText),
+      );
+
+      expect(
+        await diagnostics,
+        'The problems must be cleared after fixing the file',
+      ).to.deep.equal([]);
+    });
+  });
+});